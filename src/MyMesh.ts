@@ -0,0 +1,937 @@
+import { assert, count, fail, findUnique, getLines, log } from './utils';
+import { closeTo0, distance, XYZ, intersect3Spheres, MV, projectPointToLine, rotXY60, TAU, interpolate } from './geom-utils';
+import { findHE, HalfEdge, Loop, Mesh, MeshState, Vertex } from './mesh';
+import { IntrinsicEdge, IntrinsicTriangulation } from './intrinsic';
+import { reconstructPolyhedron } from './reconstruct';
+import { angleResidual, coincidenceResiduals, cornerAngle, lengthResidual, levenbergMarquardt, planarityResidual, Residual, Vec3 } from './solver';
+import { NoCommonFaceError, NonBoundaryVertexError, NonCoplanarError, NonPeerError, UnknownVertexError, UnsolvableSphereError } from './errors';
+
+export const r3 = Math.sqrt(3), r3half = r3 / 2;
+
+const steps = {
+  "12": XYZ.vec([ 0 * r3half,  2 / 2, 0]),
+   "1": XYZ.vec([ 1 * r3half,  3 / 2, 0]),
+   "2": XYZ.vec([ 1 * r3half,  1 / 2, 0]),
+   "3": XYZ.vec([ 2 * r3half,  0 / 2, 0]),
+   "4": XYZ.vec([ 1 * r3half, -1 / 2, 0]),
+   "5": XYZ.vec([ 1 * r3half, -3 / 2, 0]),
+   "6": XYZ.vec([ 0 * r3half, -2 / 2, 0]),
+   "7": XYZ.vec([-1 * r3half, -3 / 2, 0]),
+   "8": XYZ.vec([-1 * r3half, -1 / 2, 0]),
+   "9": XYZ.vec([-2 * r3half,  0 / 2, 0]),
+  "10": XYZ.vec([-1 * r3half,  1 / 2, 0]),
+  "11": XYZ.vec([-1 * r3half,  3 / 2, 0]),
+};
+
+type StepParser = (move: string) => MV;
+
+const clockStep: StepParser = move => steps[move] ?? fail(`unknown step: ${move}`);
+
+/**
+ * The images of the Eisenstein integers `1` and `ω` (a primitive third root
+ * of unity) for the supported grid orientations
+ */
+const eisensteinUnits = {
+  // lines in the even clock directions, `1` pointing to 12 o'clock
+  thurston: [steps["12"], steps["8"]],
+  // lines in the odd clock directions, `1` pointing to 3 o'clock
+  baez: [XYZ.vec([1, 0, 0]), XYZ.vec([-1 / 2, r3half, 0])],
+};
+
+/** Parses steps like `2`, `-ω`, `3w`, or `2-3ω` */
+const eisensteinStep = ([one, omega]: MV[]): StepParser => move => {
+  const match = /^(?:([+-]?\d+)(?=[+-]|$))?(?:([+-]?\d*)[ωw])?$/.exec(move);
+  if (!move || !match) fail(`invalid Eisenstein integer: ${move}`);
+  const [, a = "0", b] = match;
+  const bValue =
+    b === undefined ? 0 :
+    b === "" || b === "+" ? 1 :
+    b === "-" ? -1 :
+    Number(b);
+  return XYZ.plus(XYZ.scale(Number(a), one), XYZ.scale(bValue, omega));
+};
+
+const walk = (start: MV, moves: string[], step: StepParser) =>
+  moves.reduce((pos, move) => XYZ.plus(pos, step(move)), start);
+
+/**
+ * The inner vertex of the notch for the star edge from `fromPos` to `toPos`:
+ * - `height <factor>`: The notch is an isosceles triangle whose height is
+ *   the given factor (a number or a fraction like `1/3`) times the height
+ *   of the equilateral triangle.
+ * - `apex <steps>`: The inner vertex is reached by the given steps
+ *   from `fromPos`.
+ */
+function notchApex(
+  name: string, fromPos: MV, toPos: MV, kind: string, args: string[], step: StepParser,
+): MV {
+  let apex: MV;
+  if (kind === "height") {
+    if (args.length !== 1) fail(`${name}: "height" expects 1 arg`);
+    const [num, denom = "1"] = args[0].split("/");
+    const factor = Number(num) / Number(denom);
+    if (!(factor > 0 && Number.isFinite(factor))) fail(
+      `${name}: the notch height should be a positive number, not "${args[0]}"`
+    );
+    const mid = interpolate(fromPos, toPos, .5);
+    const equilateral = XYZ.plus(fromPos, rotXY60(XYZ.minus(toPos, fromPos)));
+    apex = interpolate(mid, equilateral, factor);
+  } else {
+    if (args.length === 0) fail(`${name}: "apex" expects steps`);
+    apex = walk(fromPos, args, step);
+  }
+
+  // The two notch edges become peers.  So they must have the same length:
+  const d0 = distance(fromPos, apex), d1 = distance(apex, toPos);
+  if (Math.abs(d0 - d1) > 1e-9) fail(
+    `${name}: the notch edges have different lengths (${d0.toFixed(4)} and ${d1.toFixed(4)})`
+  );
+  const edge = XYZ.minus(toPos, fromPos), toApex = XYZ.minus(apex, fromPos);
+  if (!(edge.value("x") * toApex.value("y") - edge.value("y") * toApex.value("x") > 1e-9)) fail(
+    `${name}: the notch apex should be on the inner side of the edge`
+  );
+  return apex;
+}
+
+/** See `MyMesh.saveState()` */
+export type MyMeshState = MeshState & {
+  boundary: Loop,
+  positions: Map<Vertex, MV>,
+  peers: Map<HalfEdge, HalfEdge>,
+};
+
+export class MyMesh extends Mesh {
+  boundary: Loop;
+  positions = new WeakMap<Vertex, MV>();
+  setPos = (v: Vertex, pos: MV) => this.positions.set(v, pos);
+  pos = (v: Vertex) => {
+    if (!this.positions.has(v)) fail(`vertex ${v} has no position`);
+    return this.positions.get(v);
+  }
+
+  // TODO make this a WeakMap?
+  peers = new Map<HalfEdge, HalfEdge>();
+
+  constructor(
+    log: (...args: any[]) => unknown,
+    fail: (msg: string) => never,
+  ) {
+    super(log, fail);
+  }
+
+  /** Like `Mesh.saveState()`, but also including positions and peers */
+  saveState(): MyMeshState {
+    return {
+      ...super.saveState(),
+      boundary: this.boundary,
+      // Positions are never modified in place, so there is no need to copy them.
+      positions: new Map(this.vertices.values().map(v => [v, this.positions.get(v)])),
+      peers: new Map(this.peers),
+    };
+  }
+
+  restoreState(state: MyMeshState) {
+    super.restoreState(state);
+    this.boundary = state.boundary;
+    for (const [v, pos] of state.positions) {
+      this.positions.set(v, pos);
+    }
+    this.peers.clear();
+    for (const [he0, he1] of state.peers) {
+      this.peers.set(he0, he1);
+    }
+  }
+
+  setup(def: string) {
+    const [innerHE, outerHE] = this.addCore();
+    this.boundary = outerHE.loop
+    const star = innerHE.loop;
+    star.name = "star";
+    outerHE.loop.name = "boundary";
+    innerHE.to.name = "dummy";
+    this.setPos(innerHE.to, XYZ.vec([0, 0, 0]))
+    this.peers.set(outerHE, outerHE);
+    this.logMesh();
+    this.checkWithData();
+
+    let currentPos = XYZ.vec([0, 0, 0]);
+    let tips: Vertex[] = [];
+    /** Tips and inner vertices in the order of the star definition */
+    const outline: Vertex[] = [];
+
+    let step = clockStep;
+
+    for (const line of getLines(def)) {
+      const [name, ...args] = line.split(/\s+/);
+      if (name === "eisenstein") {
+        if (args.length > 1) fail(`"eisenstein" expects at most 1 arg`);
+        const [orientation = "thurston"] = args;
+        step = eisensteinStep(eisensteinUnits[orientation] ?? fail(
+          `unknown grid orientation: ${orientation} (expected "thurston" or "baez")`
+        ));
+        continue;
+      }
+      const notchIdx = args.findIndex(arg => arg === "height" || arg === "apex");
+      const moves = notchIdx < 0 ? args : args.slice(0, notchIdx);
+      const fromPos = currentPos;
+      currentPos = walk(currentPos, moves, step);
+      const innerPos =
+        notchIdx < 0 ? XYZ.plus(fromPos, rotXY60(XYZ.minus(currentPos, fromPos))) :
+        notchApex(name, fromPos, currentPos, args[notchIdx], args.slice(notchIdx + 1), step);
+
+      const [innerHE0, outerHE0] = this.splitEdgeAcross(outerHE);  
+      const tip = innerHE0.from;
+      this.setPos(tip, fromPos);
+      tips.push(tip);
+      outline.push(tip);
+
+      const [innerHE1, outerHE1] = this.splitEdgeAcross(outerHE);
+      const inward = innerHE1.from;
+      inward.name = name;
+      this.setPos(inward, innerPos);
+      outline.push(inward);
+
+      this.peers.set(outerHE0, outerHE1).set(outerHE1, outerHE0);
+    }
+
+    if (XYZ.normSquared(currentPos) > 1e-12) fail(
+      `polygon not closed; offset: ${JSON.stringify(currentPos)}`
+    );
+
+    // remove dummy node
+    this.contractEdge(outerHE);
+    this.peers.delete(outerHE);
+
+    tips.forEach(tip => {
+      let [he0, he1] = tip.halfEdgesOut();
+      if (he0.loop === star) [he0, he1] = [he1, he0];
+      tip.name = `${he0.to.name}^${he1.to.name}`;
+    });
+
+    this.checkConeAngles(outline, tips);
+  }
+
+  /**
+   * Log the cone angles and curvatures of the vertices of the polyhedron to be
+   * folded (the inner vertices and the vertex where all the tips will meet)
+   * and fail if the star does not satisfy Alexandrov's conditions:
+   * The curvatures must be non-negative and sum up to 720°.
+   *
+   * Stars with zero-length edges (such as the "empty" example) are not checked.
+   */
+  checkConeAngles(outline: Vertex[], tips: Vertex[]) {
+    const points = outline.map(v => [this.pos(v).value("x"), this.pos(v).value("y")]);
+    const n = points.length;
+    if (points.some(([x, y], i) => {
+      const [x1, y1] = points[(i + 1) % n];
+      return Math.hypot(x1 - x, y1 - y) < 1e-9;
+    })) {
+      log("degenerate star; cone angles not checked");
+      return;
+    }
+    const deg = (a: number) => `${(a / TAU * 360).toFixed(2)}°`;
+    /** The angle of the star at a vertex, measured in the star interior */
+    const angles = new Map(outline.map((v, i) => {
+      const [x, y] = points[i], [xPrev, yPrev] = points[(i + n - 1) % n], [xNext, yNext] = points[(i + 1) % n];
+      const [ax, ay] = [xNext - x, yNext - y], [bx, by] = [xPrev - x, yPrev - y];
+      const a = Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+      return [v, a > 0 ? a : a + TAU];
+    }));
+
+    const coneAngles: [string, number][] = [
+      ...outline.filter(v => !tips.includes(v)).map(v => [v.name, angles.get(v)] as [string, number]),
+      [`tips (${tips.map(t => t.name).join(", ")})`, tips.reduce((sum, t) => sum + angles.get(t), 0)],
+    ];
+    for (const [name, angle] of coneAngles) {
+      log(`${name}: cone angle ${deg(angle)}, curvature ${deg(TAU - angle)}`);
+    }
+
+    const total = coneAngles.reduce((sum, [, angle]) => sum + TAU - angle, 0);
+    if (Math.abs(total - 2 * TAU) > 1e-9) fail(
+      `total curvature is ${deg(total)} instead of 720°; ` +
+      `is the star outline counterclockwise and free of self-intersections?`
+    );
+    for (const [name, angle] of coneAngles) {
+      if (angle > TAU + 1e-9) fail(
+        `${name}: cone angle ${deg(angle)} exceeds 360° ` +
+        `(negative curvature ${deg(TAU - angle)}); ` +
+        `the star cannot be folded to a convex polyhedron`
+      );
+    }
+  }
+
+  checkWithData() {
+    this.check();
+
+    for (const loop of this.loops) {
+      if (loop !== this.boundary && !this.isLoopFlat(loop)) {
+        fail(`face ${loop} not flat`);
+      }
+    }
+    for (const vertex of this.vertices) {
+      let i = 0;
+      for (const he of vertex.halfEdgesOut()) {
+        if (i > 50) {
+          fail(`neighborhood of vertex ${vertex} too long`)
+        }
+        if (he.from !== vertex) {
+          fail(`${he}: he.from ${he.from} should be ${vertex} (he: ${he}, he.to: ${he.to})`);
+        }
+      }
+    }
+    this.checkPeers();
+    log("mesh checked");
+  }
+
+  checkPeers(): void {
+    const {boundary, peers} = this;
+
+    if (!boundary) { // The manifold is completely folded to a polyhedron
+      assert(peers.size === 0);
+      return;
+    }
+
+    for (const he of boundary.halfEdges()) {
+      assert(peers.has(he));
+    }
+    for (const [he0, he1] of peers) {
+      if (he0.loop !== boundary) fail(
+        `half-edge ${
+          he0} (${he0.from} - ${he0.to}) with peer ${
+          he0} (${he1.from} - ${he1.to}) found on non-boundary ${he0.loop}`
+      );
+      if (peers.get(he1) !== he0) fail(
+        `peers not reciprocal: ${
+          he0} (${he0.from} - ${he0.to}) and ${
+          he0} (${he1.from} - ${he1.to})`
+      );
+      // Relaxed check so that it works after approximative "contract":
+      if (Math.abs(this.heLength(he0) - this.heLength(he1)) > 1e-3) log(
+        `WARNING: peer lengths do not fit: ${
+          he0}: ${he0.from} ==${this.heLength(he0)}==> ${he0.to} vs. ${
+          he1}: ${he1.from} ==${this.heLength(he1)}==> ${he1.to}`
+      );
+
+    }
+  }
+
+  logMesh() {
+    const {vertices, loops, peers} = this;
+    for (const l of loops) {
+      log(l, "=", ...[...l.halfEdges()].flatMap(he => [he, he.to]));
+      log(`  = (${count(l.halfEdges())}):`, ...[...l.halfEdges().map(he => he.to.name)]);
+    }
+    for (const v of vertices) {
+      log(v, ":", ...[...v.halfEdgesOut()].flatMap(he => [he.loop, he]));
+      log(`  : (${count(v.halfEdgesOut())}):`, ...[...v.halfEdgesOut().flatMap(he => [he.loop.name, he.to.name])]);
+    }
+    for (const v1 of vertices) {
+      const nearby =
+        vertices.values()
+        .filter(v2 => v2 !== v1 && this.distance(v1, v2) < 1e-4)
+        .toArray();
+      if (nearby.length > 0) log(`Nearby ${v1}:`, ...nearby);
+    }
+    log(`${
+      vertices.size} vertices (${
+      count(vertices.values().filter(v => v.name.includes("^")))} tips), ${
+      loops.size} loops (${
+      [...loops].filter(l => l !== this.boundary).length
+    } faces)`);
+    const edgeMessages: string[] = [];
+    for (const l of loops) {
+      if (l === this.boundary) continue;
+      for (const he of l.halfEdges()) {
+        if (he.twin.loop === this.boundary) continue;
+        if (he.from.name > he.to.name) continue; // avoid duplicate output
+        // TODO compute a directed angle (as seen when looking along the half-edge)?
+        const angle = XYZ.getAngle(this.faceOrientation(he), this.faceOrientation(he.twin));
+        const length = XYZ.dist(this.pos(he.from), this.pos(he.to));
+        edgeMessages.push(
+          `${he.from.name}->${he.to.name}: ${
+            length.toFixed(5)}, ${((.5-angle/TAU)*360).toFixed(5)}° ${
+            he.from} ==[${he}(${he.loop})|${he.twin}(${he.twin.loop})]==> ${he.to}`
+        );
+      }
+    }
+    log(edgeMessages.sort().join("\n"));
+    for (const [he0, he1] of peers) {
+      if (he0.id > he1.id) continue;
+      log(`peers: ${
+        he0} (${he0.from.name}->${he0.to.name}), ${
+        he1} (${he1.from.name}->${he1.to.name})`
+      );
+    }
+  }
+
+  bend(angle: number, names: string[]) {
+    const {pos} = this;
+
+    const [first, ...rest] = names.map(this.boundaryVertex);
+
+    let prev = first;
+    for (const current of rest) {
+      const face = this.findUniqueFace(prev, current);
+      const he_face_prev = findUnique(face.halfEdges(), he => he.to === prev);
+      const he_face_current = findUnique(face.halfEdges(), he => he.to === current);
+      const beyond = collectVertices(he_face_current.from, new Set([prev, current]));
+      log("step:", prev, current, `{${beyond.values().toArray().join(" ")}}`)
+      const [heSplit] = this.splitLoop(he_face_current, he_face_prev, {create: "left"});
+      heSplit.loop.name = `split(${prev.name}-${current.name})`;
+
+      // TODO simplify geometry
+      const pivot = pos(current);
+      const from = this.faceOrientation(heSplit);
+      const to = XYZ.sandwich(
+        XYZ.exp(XYZ.scale(-angle/2, XYZ.normalize(XYZ.dual(XYZ.minus(pos(prev), pivot)))))
+      )(from);
+      this.rotatePoints(
+        pivot,
+        XYZ.plus(pivot, from),
+        XYZ.plus(pivot, to),
+        beyond,
+      );
+
+      prev = current;
+    }
+  }
+
+  bend2(choice: "+" | "-", names: [string, string, string]) {
+    const {peers, pos} = this;
+
+    const [p, q, r] = names.map(this.boundaryVertex);
+
+    const he_q_boundary =
+      findUnique(q.halfEdgesOut(), he => he.loop === this.boundary);
+    const he_boundary_q = he_q_boundary.prev;
+
+    if (peers.get(he_boundary_q) !== he_q_boundary) throw new NonPeerError(q.name,
+      `cannot attach non-peers ${
+      he_boundary_q} (${he_boundary_q.from} - ${he_boundary_q.to}) and ${
+        he_boundary_q} (${he_q_boundary.from} - ${he_q_boundary.to})`
+    );
+
+    const t1 = he_q_boundary.to;
+    const t2 = he_boundary_q.from;
+
+    // Use new names {s1, s2} for {p, r} in such a way that walking on the
+    // boundary counterclockwise (and thus against the half-edge directions)
+    // will reach the vertices in the order s1->q->s2->s1.
+    let s1: Vertex, s2: Vertex;
+    for (let count = 0, he = he_q_boundary; ; count++, he = he.next) {
+      if (count > 50) fail("runaway search loop");
+      if (he.to === p) { s1 = p; s2 = r; break; }
+      if (he.to === r) { s1 = r; s2 = p; break; }
+    }
+
+    const face1 = this.findUniqueFace(s1, q);
+    this.splitLoop(
+      findUnique(face1.halfEdges(), he => he.to === q),
+      findUnique(face1.halfEdges(), he => he.to === s1),
+      {create: "left"}
+    )[0].loop.name = `split(${q.name}-${s1.name})`;
+
+    const face2 = this.findUniqueFace(q, s2);;
+    this.splitLoop(
+      findUnique(face2.halfEdges(), he => he.to === s2),
+      findUnique(face2.halfEdges(), he => he.to === q),
+      {create: "left"}
+    )[0].loop.name = `split(${q.name}-${s2.name})`;
+
+    const border = new Set([s1, q, s2]);
+    const beyond1 = collectVertices(t1, border);
+    const beyond2 = collectVertices(t2, border);
+    assert(beyond1.isDisjointFrom(beyond2));
+
+    let inters1: MV, inters2: MV;
+    try {
+      [inters1 , inters2] = intersect3Spheres(
+        pos(s1), pos(t1),
+        pos(q ), pos(t1/* or t2 */),
+        pos(s2), pos(t2),
+      );
+    } catch (e) {
+      if (!e.message.startsWith("negative discriminant")) throw e;
+      throw new UnsolvableSphereError([s1.name, q.name, s2.name], e.message);
+    }
+    const inters = choice === "+" ? inters2 : inters1;
+
+    // TODO simplify geometry?
+    this.rotatePoints(projectPointToLine(pos(t1), pos(s1), pos(q)), pos(t1), inters, beyond1);
+    this.rotatePoints(projectPointToLine(pos(t2), pos(s2), pos(q)), pos(t2), inters, beyond2);
+    assert(this.distance(t1, t2) < 1e-8);
+
+    // TODO Let MeshG provide a method combining splitLoop and contractEdge?
+    // This would avoid creating a temporary edge and a temporary loop.
+    const tmpEdge = this.splitLoop(he_q_boundary, he_boundary_q.prev, {create: "left"});
+    this.contractEdge(tmpEdge[0]);
+    this.dropEdge(he_q_boundary);
+    assert(peers.delete(he_boundary_q));
+    assert(peers.delete(he_q_boundary));
+    t1.name = mergeNames(t2.name, t1.name);
+
+    const he_tip1_q_aux = findHE(t1, q);
+    if (this.isBetweenCoplanarLoops(he_tip1_q_aux)) {
+      // TODO create a test case for this situation
+      this.dropEdge(he_tip1_q_aux); 
+    }
+  }
+
+  reattach(pName: string, qName: string) {
+    const {vertices, peers, pos, setPos} = this;
+
+    const p = this.boundaryVertex(pName);
+    const q = this.boundaryVertex(qName);
+    const face = this.findUniqueFace(p, q);
+    const he_face_p = findUnique(p.halfEdgesIn(), he => he.loop === face);
+    const he_face_q = findUnique(q.halfEdgesIn(), he => he.loop === face);
+    const he_boundary_p = findUnique([...p.halfEdgesIn()], he => he.loop === this.boundary);
+    const he_boundary_q = findUnique([...q.halfEdgesIn()], he => he.loop === this.boundary);
+    const he_q_boundary = he_boundary_q.next;
+    if (
+      peers.get(he_boundary_q) !== he_q_boundary ||
+      peers.get(he_q_boundary) !== he_boundary_q
+    ) throw new NonPeerError(qName, `cannot reattach at non-peers ${
+      he_boundary_q} (${he_boundary_q.from} - ${he_boundary_q.to}) and ${
+      he_q_boundary} (${he_q_boundary.from} - ${he_q_boundary.to})`);
+    const t1 = he_boundary_q.from;
+    const t2 = he_q_boundary.to;
+
+    const [he_pq_A, he_qp_A] = this.splitLoop(he_face_p, he_face_q, {create: "right"});
+    const [he_qp_B, he_pq_B] = this.splitLoop(he_pq_A, he_face_p, {create: "left"});
+    log("AB", he_qp_A.loop.name, he_qp_B.loop.name);
+    const [he_p0_p1, he_p1_p0] = this.splitVertex(he_qp_B, he_boundary_p, {create: "both"});
+    setPos(he_p0_p1.from, pos(p));
+    setPos(he_p0_p1.to, pos(p));
+    vertices.delete(p);
+    this.dropEdge(he_p0_p1);
+    peers.set(he_pq_A, he_qp_B).set(he_qp_B, he_pq_A);
+
+    // Now we have cut through p and face.  The two pieces should be connected
+    // only at q.
+
+    log("reattach info:",
+      Object.entries({p, q, t1, t2, he_p0_p1}).map(([k, v]) => `${k} = ${v}`).join("; "),
+      face, `{${face.vertices().toArray().join(" ")}}`,
+    );
+
+    const separator = new Set([q]);
+    const part1 = collectVertices(t1, separator);
+    const part2 = collectVertices(t2, separator);
+    assert(part1.isDisjointFrom(part2));
+    assert(part1.has(t1));
+    assert(part2.has(t2));
+
+    const [fromV, toV, fromHE, toHE, part] =
+      part1.size <= part2.size
+      ? [t1, t2, he_boundary_q, he_q_boundary, part1]
+      : [t2, t1, he_q_boundary, he_boundary_q, part2];
+
+    // q is not moved by reattachment.  So it is already in the right place.
+    // The following rotation of the snippet vertices ensures
+    // - that edges q-t1 and q-t2 coincide and
+    // - that the snippet fits with q and pNew (instead of p):
+    log("before rot1", q, pos(q), fromV, pos(fromV), toV, pos(toV),
+      "dist:", this.distance(fromV, toV),
+      `{${part.values().map(v => pos(v)).toArray().join(" ")}}`);
+    this.rotatePoints(pos(q), pos(fromV), pos(toV), part);
+    log("after rot1", q, pos(q), fromV, pos(fromV), toV, pos(toV),
+      "dist:", this.distance(fromV, toV),
+      `{${part.values().map(v => pos(v)).toArray().join(" ")}}`);
+    // But still the two faces behind q-t1 and q-t2 might not be in a plane.
+    // So we perform another rotation of the snippet around the newly
+    // coinciding edges:
+    this.rotatePoints(
+      pos(q),
+      // TODO Avoid adding pos(q), which is subtracted immediately inside rotatePoints(...)
+      XYZ.plus(pos(q), this.faceOrientation(fromHE.twin)),
+      XYZ.plus(pos(q), XYZ.negate(this.faceOrientation(toHE.twin))),
+      part,
+    );
+    log("after rot2", q, pos(q), fromV, pos(fromV), toV, pos(toV),
+      "dist:", this.distance(fromV, toV),
+      `{${part.values().map(v => pos(v)).toArray().join(" ")}}`);
+
+    const [he_t1_t2, he_t2_t1] =
+      this.splitLoop(he_q_boundary, he_q_boundary.prev.prev, {create: "left"});
+    // Compute the merged name before contracting.  (Afterwards both ends of
+    // the contracted half-edge refer to the surviving vertex.)
+    const mergedName = mergeNames(he_t1_t2.from.name, he_t1_t2.to.name);
+    const t = this.contractEdge(he_t1_t2);
+    t.name = mergedName;
+    this.dropEdge(he_q_boundary);
+    if (!this.isBetweenCoplanarLoops(he_boundary_q)) throw new NonCoplanarError(qName,
+      `${he_boundary_q.loop} and ${he_boundary_q.twin}`
+    );
+    this.dropEdge(he_boundary_q);
+    assert(this.peers.delete(he_boundary_q));
+    assert(this.peers.delete(he_q_boundary));
+    // TODO If more pairs of edges/vertices happen to align, merge them.
+  }
+
+  /**
+   * Move the vertices towards a configuration such that
+   * - all existing edges keep their lengths,
+   * - all faces stay flat and keep their angles,
+   * - the star tips coincide,
+   * - and corresponding boundary vertices (duplicated by reattach operations)
+   *   coincide.
+   * 
+   * This is a nonlinear least-squares problem, which is solved with the
+   * Levenberg-Marquardt method.
+   * 
+   * After the vertices have been moved, corresponding vertices and
+   * boundary edges are also merged topologically.
+   * 
+   * The arguments are the maximum number of iterations and the name for the
+   * merged star tips.
+   */
+  contract(maxIterations: number, tipName: string) {
+    if (this.vertices.values().some(v => v.name === tipName)) fail(
+      `New tip name "${tipName}" already in use.`
+    );
+
+    const {vertices, loops, boundary, pos, setPos} = this;
+
+    const vertexList = [...vertices];
+    const index = new Map(vertexList.map((v, i) => [v, i]));
+    const positions = vertexList.map(v => {
+      const p = pos(v);
+      return [p.value("x"), p.value("y"), p.value("z")] as Vec3;
+    });
+    const residuals: Residual[] = [];
+
+    for (const va of vertices) {
+      for (const vb of va.neighbors()) {
+        if (va.id < vb.id) {
+          residuals.push(lengthResidual(
+            "edge length", index.get(va), index.get(vb), this.distance(va, vb),
+          ));
+        }
+      }
+    }
+
+    // It's a bit hacky to detect peer nodes by name
+    // (but it's easier than tracing reattachments).
+    const baseName = (v: Vertex) => v.name.replace(/\..*$/, "");
+    const boundaryVertices = new Set(boundary.vertices());
+    for (const va of vertices) {
+      for (const vb of boundaryVertices) {
+        if (vb === va || boundaryVertices.has(va) && va.id > vb.id) continue;
+        if (
+          baseName(va) === baseName(vb) ||
+          va.name.includes("^") && vb.name.includes("^")
+        ) {
+          assert(!va.neighbors().some(v => v === vb));
+          residuals.push(...coincidenceResiduals(
+            "peer coincidence", index.get(va), index.get(vb),
+          ));
+        }
+      }
+    }
+
+    for (const l of loops) {
+      if (l === boundary) continue;
+      const corners = l.vertices().map(v => index.get(v)).toArray();
+      const n = corners.length;
+      const cornerPositions = corners.map(i => positions[i]);
+      corners.forEach((corner, i) => {
+        residuals.push(angleResidual(
+          "face angle", corners, i, cornerAngle(cornerPositions, i),
+        ));
+        if (n > 3) {
+          residuals.push(planarityResidual("face planarity", corners, i));
+        }
+      });
+    }
+
+    const {converged, iterations, stats} =
+      levenbergMarquardt(positions, residuals, {maxIterations, tolerance: 1e-10});
+
+    for (const [kind, {count, max, rms}] of stats) {
+      log(`residual "${kind}" (${count} constraints): max ${
+        max.toExponential(3)}, rms ${rms.toExponential(3)}`);
+    }
+    if (!converged) fail(
+      `"contract" did not converge after ${iterations} iterations; ${
+        stats.entries()
+        .filter(([, {max}]) => max > 1e-10)
+        .map(([kind, {max}]) => `max "${kind}" residual: ${max.toExponential(3)}`)
+        .toArray().join(", ")
+      }`
+    );
+    log(`"contract" converged after ${iterations} iterations`);
+
+    vertexList.forEach((v, i) => setPos(v, XYZ.vec(positions[i])));
+
+    // Note: I tried gluing before contracting in the hope that it improves
+    // convergence, but it didn't.
+
+    this.gluePeers();
+    const tip = vertices.values().find(v => v.name.includes("^"));
+    assert(!!tip);
+    tip.name = tipName;
+  }
+
+  gluePeers() {
+    const {boundary, peers} = this;
+    while (peers.size > 2) {
+      log(`peers left: ${peers.size}`);
+      const [he0, he1] = peers.entries().find(([he0, he1]) => he0.to === he1.from);
+      log(`gluing ${he0}, ${he1} at ${he0.to}`);
+      const [he2, he3] = this.splitLoop(he0.prev, he1, {create: "right"});
+      const mergedName = mergeNames(he2.to.name, he2.from.name);
+      this.contractEdge(he2);
+      he2.from.name = mergedName;
+      this.dropEdge(he0);
+      assert(peers.delete(he0));
+      assert(peers.delete(he1));
+    }
+    {
+      log("gluing last peers", ...boundary.halfEdges());
+      let he0 = boundary.firstHalfEdge;
+      let he1 = he0.next;
+      assert(peers.get(he0) === he1);
+      assert(peers.get(he1) === he0);
+      this.dropEdge(he0);
+      assert(peers.delete(he0));
+      assert(peers.delete(he1));
+      this.boundary = undefined;
+    }
+  }
+
+  /**
+   * The intrinsic triangulation of the unfolded star with its peers glued
+   * together (see `intrinsic.ts`)
+   */
+  intrinsicTriangulation() {
+    const {boundary, peers, pos} = this;
+    const star = this.loops.values().find(l => l !== boundary);
+    if (!boundary || this.loops.size !== 2 || !this.isLoopFlat(star)) fail(
+      `only the unfolded star can be triangulated intrinsically`
+    );
+    const starHEs = [...star.halfEdges()];
+    const heIdx = new Map(starHEs.map((he, i) => [he, i]));
+    return IntrinsicTriangulation.fromGluedPolygon(
+      starHEs.map(he => [pos(he.from).value("x"), pos(he.from).value("y")]),
+      starHEs.map(he => he.from.name),
+      starHEs.map(he => heIdx.get((peers.get(he.twin) ?? fail(`no peer for ${he}`)).twin)),
+    );
+  }
+
+  /**
+   * The edges of the intrinsic Delaunay triangulation of the unfolded star
+   * and the edges of the polyhedron created by `foldAuto(...)`
+   * (`polyhedron` is `undefined` if the polyhedron cannot be found).
+   *
+   * Returns `undefined` if the star cannot be triangulated (because it is
+   * degenerate or no longer the unfolded star).
+   */
+  starEdges(): {delaunay: IntrinsicEdge[], polyhedron?: IntrinsicEdge[]} | undefined {
+    let tri: IntrinsicTriangulation;
+    try {
+      tri = this.intrinsicTriangulation();
+    } catch (e) {
+      log(`no star edges: ${e.message}`);
+      return undefined;
+    }
+    tri.makeDelaunay();
+    const delaunay = tri.edgeList();
+    try {
+      return {delaunay, polyhedron: tri.edgeList(reconstructPolyhedron(tri).edges)};
+    } catch (e) {
+      log(`no polyhedron found: ${e.message}`);
+      return {delaunay};
+    }
+  }
+
+  /**
+   * Replace the unfolded star by the convex polyhedron obtained by gluing
+   * the peers (see `reconstruct.ts`).
+   *
+   * The vertex where the star tips meet gets the name `tipName`.
+   */
+  foldAuto(tipName: string) {
+    if (this.vertices.values().some(v => v.name === tipName)) fail(
+      `New tip name "${tipName}" already in use.`
+    );
+    const tri = this.intrinsicTriangulation();
+    const {positions, faces} = reconstructPolyhedron(tri);
+
+    this.vertices = new Set();
+    this.loops = new Set();
+    this.peers.clear();
+    this.boundary = undefined;
+    const vertices = tri.vertices.map(({name, corners}, i) => {
+      const v = this.makeVertex(corners.length > 1 && name.includes("^") ? tipName : name);
+      this.setPos(v, XYZ.vec(positions[i]));
+      return v;
+    });
+    const heMap = new Map<string, HalfEdge>();
+    for (const face of faces) {
+      const loop = this.makeLoop(`auto(${face.map(i => vertices[i].name).join("-")})`);
+      const hes = face.map(() => new HalfEdge());
+      face.forEach((i, k) => {
+        const j = face[(k + 1) % face.length];
+        const he = hes[k];
+        he.loop = loop;
+        he.to = vertices[j];
+        he.next = hes[(k + 1) % face.length];
+        he.next.prev = he;
+        vertices[i].firstHalfEdgeOut = he;
+        heMap.set(`${i},${j}`, he);
+      });
+      loop.firstHalfEdge = hes[0];
+    }
+    for (const [key, he] of heMap) {
+      const [i, j] = key.split(",");
+      he.twin = heMap.get(`${j},${i}`) ?? fail(`polyhedron edge ${key} has no twin`);
+    }
+  }
+
+  rotatePoints(pivot: MV, from: MV, to: MV, vertices: Set<Vertex>) {
+    const dir1 = XYZ.normalize(XYZ.minus(to, pivot));
+    const dir2 = XYZ.normalize(XYZ.minus(from, pivot));
+    const dirMid = XYZ.normalize(XYZ.plus(dir1, dir2));
+    const rot = XYZ.geometricProduct(dir1, dirMid);
+    const transformOffset = XYZ.sandwich(rot);
+    const transformPoint = (point: MV) =>
+      XYZ.plus(transformOffset(XYZ.minus(point, pivot)), pivot);
+    const angle = XYZ.getAngle(XYZ.minus(from, pivot), XYZ.minus(to, pivot));
+    log(`rotation around: ${pivot} from ${from} to ${to};\n  angle: ${(angle * 180 / Math.PI).toFixed(5)}° = ${angle}`);
+    for (const v of vertices) {
+      this.positions.set(v, transformPoint(this.positions.get(v)));
+    }
+  }
+
+  /**
+   * Would merging the two loops adjacent to `he` and its twin result
+   * in a flat loop?
+   */
+  isBetweenCoplanarLoops(he: HalfEdge): boolean {
+    assert(this.isLoopFlat(he.loop));
+    assert(this.isLoopFlat(he.twin.loop));
+    // Assuming that each of the two loops is already flat, we only need to
+    // check if they have the same normalized directed areas.
+    // If one of the loops is degenerated, the union is flat as well.
+    const a1 = this.directedArea(he.loop), a2 = this.directedArea(he.twin.loop);
+    const a1n = XYZ.norm(a1), a2n = XYZ.norm(a2);
+    return (
+      a1n < 1e-8 || a2n < 1e-8 ||
+      closeTo0(XYZ.minus(XYZ.scale(1/a1n, a1), XYZ.scale(1/a2n, a2)))
+    );
+  }
+
+  /**
+   * Find the (unique) face adjacent to all the given vertices.
+   */
+  findUniqueFace(p: Vertex, q: Vertex) {
+    const found = p.loops().filter(l =>
+      l !== this.boundary && l.vertices().some(v => v === q)
+    ).toArray();
+    if (found.length !== 1) throw new NoCommonFaceError([p.name, q.name], found.length);
+    return found[0];
+  }
+
+  /**
+   * The boundary vertices q other than p for which `findUniqueFace(p, q)`
+   * succeeds
+   */
+  uniqueFaceNeighbors(p: Vertex) {
+    const counts = new Map<Vertex, number>();
+    for (const l of p.loops()) {
+      if (l === this.boundary) continue;
+      for (const q of new Set(l.vertices())) counts.set(q, (counts.get(q) ?? 0) + 1);
+    }
+    return counts.entries()
+      .filter(([q, count]) => count === 1 && q !== p && q.loops().some(l => l === this.boundary))
+      .map(([q]) => q)
+      .toArray();
+  }
+
+  /** The (unique) vertex with the given name, which must be on the boundary */
+  boundaryVertex = (name: string) => {
+    const found = this.vertices.values().filter(v => v.name === name).toArray();
+    if (found.length !== 1) throw new UnknownVertexError(name, found.length);
+    const v = found[0];
+    if (!v.loops().some(l => l === this.boundary)) throw new NonBoundaryVertexError(name);
+    return v;
+  }
+
+  distance = (from: Vertex, to: Vertex) => distance(this.pos(from), this.pos(to));
+
+  heLength = (he: HalfEdge) => this.distance(he.from, he.to);
+
+  hePoint = (he: HalfEdge, lambda: number) =>
+    interpolate(this.pos(he.from), this.pos(he.to), lambda);
+
+  isLoopFlat(loop: Loop) {
+    // This is a bit too optimistic:  A non-flat loop with total area 0 will be
+    // reported as flat.
+    const a = this.directedArea(loop);
+    for (const {from, to} of loop.halfEdges()) {
+      if (!closeTo0(XYZ.wedgeProduct(a, XYZ.minus(this.pos(to), this.pos(from))))) {
+        return false;
+      }
+    }
+    return true;
+  }
+  
+  /**
+   * Return a vector
+   * - parallel to the plane of `he.loop` and
+   * - orthogonal to the direction of `he`.
+   * 
+   * (It does not matter if the result points from the half edge into the loop or
+   * in the opposite direction.  Consistent behavior suffices.)
+   */
+  faceOrientation = (he: HalfEdge) =>
+    XYZ.contractLeft(XYZ.minus(this.pos(he.to), this.pos(he.from)), this.directedArea(he.loop));
+  
+  directedArea = (loop: Loop) => loop.halfEdges().reduce(
+    (acc, {from, to}) => XYZ.plus(acc, XYZ.wedgeProduct(this.pos(from), this.pos(to))),
+    XYZ.zero(),
+  );
+}
+
+/**
+ * Return the vertices reachable from start without crossing the border.
+ */
+function collectVertices(start: Vertex, border: Set<Vertex>): Set<Vertex> {
+  log(`collecting from ${start} to`, ...border);
+  const collected = new Set<Vertex>();
+  function recur(v: Vertex) {
+    if (border.has(v) || collected.has(v)) return;
+    collected.add(v);
+    [...v.neighbors()].forEach(recur);
+  }
+  recur(start);
+  log(`collected: {${[...collected].join(", ")}}`);
+  return collected;
+}
+
+export const mergeNames = (a: string, b: string) => {
+  if (
+    (a.endsWith(".0") || a.endsWith(".1")) &&
+    (b.endsWith(".0") || b.endsWith(".1")) &&
+    a.slice(0, -2) === b.slice(0, -2) &&
+    a !== b
+  ) {
+    return a.slice(0, -2);
+  }
+
+  {
+    const i = b.indexOf("^");
+    if (i !== -1 && a.endsWith("^" + b.slice(0, i))) {
+      return a + b.slice(i);
+    }
+  }
+  {
+    const i = a.indexOf("^");
+    if (i !== -1 && b.endsWith("^" + a.slice(0, i))) {
+      return b + a.slice(i);
+    }
+  }
+
+  return `${a}+${b}`;
+}
@@ -0,0 +1,90 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding } from "../folding";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the cone angles and curvatures computed in the setup:
+- The logged values for stars with equilateral and with flatter notches.
+- Stars violating Alexandrov's conditions are rejected with a message
+  naming the offending vertex and giving the offending value.
+*/
+
+const deg = (degrees: number) => `${degrees.toFixed(2)}°`;
+
+/** The error message of a failing setup */
+function setupError(setup: string) {
+  try {
+    createFolding(setup);
+  } catch (e) {
+    return e.message as string;
+  }
+  fail(`the setup did not fail`);
+}
+
+function expectIncludes(message: string, parts: string[]) {
+  for (const part of parts) {
+    if (!message.includes(part)) fail(`expected "${part}" in message "${message}"`);
+  }
+}
+
+/** The logged curvature (in degrees) for each vertex */
+function loggedCurvatures(setup: string) {
+  const lines: string[] = [];
+  createFolding(setup, (...args) => lines.push(args.join(" ")));
+  return new Map(lines.flatMap(line => {
+    const match = /^(.*): cone angle (\S+), curvature (\S+)$/.exec(line);
+    return match ? [[match[1], Number.parseFloat(match[3])]] : [];
+  }));
+}
+
+function checkLogged() {
+  // Equilateral notches give a curvature of 60° at each inner vertex,
+  // so the 11 tips of the Thurston example have 720° - 11 * 60° together.
+  // A notch with a third of the equilateral height has an angle of 120°.
+  const setup = examples.thurston.setup.replace("a 11", "a 11 height 1/3");
+  for (const [setupText, a, tips] of [
+    [examples.thurston.setup, 60, 720 - 11 * 60],
+    [setup, 120, 720 - 120 - 10 * 60],
+  ] as const) {
+    const curvatures = loggedCurvatures(setupText);
+    if (curvatures.size !== 12) fail(`${curvatures.size} curvatures logged`);
+    for (const [name, curvature] of curvatures) {
+      const expected = name === "a" ? a : name.startsWith("tips (") ? tips : 60;
+      if (!(Math.abs(curvature - expected) < .01)) fail(
+        `curvature ${deg(curvature)} at ${name} instead of ${deg(expected)}`
+      );
+    }
+  }
+}
+
+function checkClockwise() {
+  // Going around clockwise, the interior angles of the 6 corners sum up to
+  // (6 + 2) * 180° instead of (6 - 2) * 180°, leaving no curvature at all.
+  expectIncludes(setupError("a 12\nb 4\nc 8"), [
+    `total curvature is ${deg(0)} instead of 720°`,
+  ]);
+}
+
+function checkNegativeCurvature() {
+  // A regular hexagon with flat notches (height 1/10):  At each tip the
+  // notches cut the hexagon angle of 120° by twice their base angle.
+  const base = Math.atan(Math.sqrt(3) / 10) * 180 / Math.PI;
+  const coneAngle = 6 * (120 - 2 * base);
+  const message = setupError([12, 10, 8, 6, 4, 2].map(
+    (dir, i) => `${"abcdef"[i]} ${dir} height 1/10`
+  ).join("\n"));
+  expectIncludes(message, [
+    "tips (",
+    `cone angle ${deg(coneAngle)} exceeds 360°`,
+    `negative curvature ${deg(360 - coneAngle)}`,
+  ]);
+}
+
+export default function checkCurvature() {
+  const {run, failures} = checkRunner();
+  run("logged curvatures", checkLogged);
+  run("star outline going clockwise", checkClockwise);
+  run("negative curvature at the tips", checkNegativeCurvature);
+  return failures();
+}
@@ -0,0 +1,61 @@
+import { fail } from "../utils";
+import { createFolding, parseCommand } from "../folding";
+import { enumerateStars } from "../enumerate";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the star enumeration:
+- With 12 edges of norm at most 4 there are exactly 5 stars
+  (with known areas).
+- The setups of the enumerated stars are accepted and can be folded
+  automatically.
+- The area bound and the limit are respected.
+- Invalid numbers of edges are rejected.
+*/
+
+function checkTwelve() {
+  const areas = enumerateStars({edges: 12, maxNorm: 4}).map(({area}) => area);
+  if (areas.join() !== "24,30,34,38,48") fail(`unexpected areas: ${areas.join()}`);
+}
+
+function checkSetups() {
+  const stars = enumerateStars({edges: 11, maxNorm: 7, maxArea: 24});
+  if (stars.length === 0) fail(`no stars found`);
+  stars.forEach(({setup}, i) => {
+    const folding = createFolding(setup);
+    // Folding takes a while, so only fold a few of the stars:
+    if (i < 3) folding.apply(parseCommand("fold auto l"));
+  });
+}
+
+function checkBounds() {
+  const all = enumerateStars({edges: 11, maxNorm: 7});
+  const small = enumerateStars({edges: 11, maxNorm: 7, maxArea: 24});
+  const expected = all.filter(({area}) => area <= 24);
+  if (small.length !== expected.length || expected.length === all.length) fail(
+    `${small.length} of ${all.length} stars with area <= 24 instead of ${expected.length}`
+  );
+  const limited = enumerateStars({edges: 11, maxNorm: 7, limit: 2});
+  if (limited.length !== 2) fail(`got ${limited.length} stars instead of 2`);
+}
+
+function checkInvalid() {
+  for (const edges of [6, 13]) {
+    let failed = false;
+    try {
+      enumerateStars({edges});
+    } catch {
+      failed = true;
+    }
+    if (!failed) fail(`no failure for ${edges} edges`);
+  }
+}
+
+export default function checkEnumerate() {
+  const {run, failures} = checkRunner();
+  run("enumeration of stars with 12 edges", checkTwelve);
+  run("setups of enumerated stars", checkSetups);
+  run("area bound and limit of the enumeration", checkBounds);
+  run("enumeration with invalid numbers of edges", checkInvalid);
+  return failures();
+}
@@ -0,0 +1,78 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, parseCommand, ScriptRunner } from "../folding";
+import { SourceLocation } from "../errors";
+import { commandLines } from "../macros";
+import { checkRunner } from "./runner";
+
+/*
+Checks for error reporting:  For failing scripts (on the setup of the
+"thurston" example) the last phase reports the expected error type and the
+expected location (line, column, and token) in the transform text.
+
+Furthermore `uniqueFaceNeighbors(...)` (used to offer vertices for picking)
+must agree with `findUniqueFace(...)` after each step of the "thurston"
+example.
+*/
+
+const cases: [string, string, SourceLocation][] = [
+  ["reattach k^a a^b", "NonPeerError", {line: 1, column: 14, token: "a^b"}],
+  ["reattach k^a b", "NonCoplanarError", {line: 1, column: 14, token: "b"}],
+  ["bend .5 c e\n  bend .5 k^a c^d", "NoCommonFaceError", {line: 2, column: 15, token: "c^d"}],
+  ["bend2 + k^a a f", "UnsolvableSphereError", {line: 1, column: 1, token: "bend2 + k^a a f"}],
+  ["bend2 + f g h\nbend .5 g c", "NonBoundaryVertexError", {line: 2, column: 9, token: "g"}],
+  ["let w = .5\nbend w e.2 f", "UnknownVertexError", {line: 2, column: 8, token: "e.2"}],
+  // The token does not occur in the source line:
+  ["for X in e.2\n  bend .5 X f\nend", "UnknownVertexError", {line: 2, column: 3, token: "bend .5 X f"}],
+  ["bend pi/ a b", "ParseError", {line: 1, column: 10, token: "a"}],
+  ["bend2 * f g h", "ParseError", {line: 1, column: 7, token: "*"}],
+  ["\n\nfrobnicate a", "ParseError", {line: 3, column: 1, token: "frobnicate"}],
+  ["bend .5 a b\n end", "ParseError", {line: 2, column: 2, token: "end"}],
+];
+
+function checkCase(transform: string, errorType: string, expected: SourceLocation) {
+  let lastError: string | undefined, lastLocation: SourceLocation | undefined;
+  new ScriptRunner((folding, logTitle, logText, error, location) => {
+    lastError = error;
+    lastLocation = location;
+  }).run(examples.thurston.setup, transform);
+  if (!lastError?.startsWith(`${errorType}:`)) fail(`expected a ${errorType} but got "${lastError}"`);
+  if (JSON.stringify(lastLocation) !== JSON.stringify(expected)) fail(
+    `unexpected location ${JSON.stringify(lastLocation)} of error "${lastError}"`
+  );
+}
+
+function checkFaceNeighbors() {
+  const {setup, transform} = examples.thurston;
+  const folding = createFolding(setup);
+  const {mesh} = folding;
+  for (const line of commandLines(transform)) {
+    if (!mesh.boundary) break;
+    const boundary = mesh.boundary.vertices().toArray();
+    for (const p of boundary) {
+      const neighbors = mesh.uniqueFaceNeighbors(p);
+      for (const q of boundary) {
+        if (q === p) continue;
+        let unique = true;
+        try {
+          mesh.findUniqueFace(p, q);
+        } catch {
+          unique = false;
+        }
+        if (neighbors.includes(q) !== unique) fail(
+          `before "${line}": ${q.name} ${unique ? "missing in" : "wrongly in"} the face neighbors of ${p.name}`
+        );
+      }
+    }
+    folding.apply(parseCommand(line));
+  }
+}
+
+export default function checkErrors() {
+  const {run, failures} = checkRunner();
+  for (const [transform, errorType, location] of cases) {
+    run(`${errorType} for ${JSON.stringify(transform)}`, () => checkCase(transform, errorType, location));
+  }
+  run("vertices sharing a unique face", checkFaceNeighbors);
+  return failures();
+}
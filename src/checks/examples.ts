@@ -0,0 +1,232 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, Folding, parseCommand, runScript, Snapshot } from "../folding";
+import { commandLines } from "../macros";
+import { compare } from "./history";
+import { checkRunner } from "./runner";
+
+/*
+Regression checks for the shipped examples.
+
+Every example must have an entry here.  We expect that all phases succeed
+and that the final mesh has the given numbers of vertices, edges, and faces.
+Furthermore each edge length must be one of the given values and for each
+value the number of edges with that length is checked.
+*/
+
+type Expectation = {
+  closed: boolean,
+  vertices: number,
+  edges: number,
+  faces: number,
+  /** edge length => number of edges with that length */
+  edgeLengths: [number, number][],
+};
+
+const expectations: Record<string, Expectation> = {
+  thurston: {
+    closed: true, vertices: 12, edges: 30, faces: 20,
+    edgeLengths: [[1, 11], [Math.sqrt(3), 8], [2, 11]],
+  },
+  icosahedron: {
+    closed: false, vertices: 22, edges: 41, faces: 20,
+    edgeLengths: [[1, 41]],
+  },
+  icosahedron2: {
+    closed: true, vertices: 12, edges: 30, faces: 20,
+    edgeLengths: [[1, 30]],
+  },
+  octahedron: {
+    closed: true, vertices: 6, edges: 12, faces: 8,
+    edgeLengths: [[1, 12]],
+  },
+  empty: {
+    closed: false, vertices: 2, edges: 2, faces: 1,
+    edgeLengths: [[0, 2]],
+  },
+};
+
+const tolerance = 1e-6;
+
+function checkExample(name: string) {
+  const {setup, transform} = examples[name];
+  const expected = expectations[name] ?? fail(`no expectations for example "${name}"`);
+
+  let nPhases = 0;
+  let lastFolding: Folding;
+  runScript(setup, transform, (folding, logTitle, logText, error) => {
+    nPhases++;
+    if (error) fail(`phase ${nPhases} "${logTitle}" failed: ${error}`);
+    // Already done by the folding engine, but let's be explicit:
+    folding.mesh.checkWithData();
+    lastFolding = folding;
+  });
+  const expectedPhases = 1 + commandLines(transform).length;
+  if (nPhases !== expectedPhases) fail(
+    `expected ${expectedPhases} phases but got ${nPhases}`
+  );
+
+  const {mesh} = lastFolding;
+  const {vertices, edges, faces} = lastFolding.snapshot();
+  const closed = mesh.boundary === undefined;
+  if (closed !== expected.closed) fail(
+    `expected ${expected.closed ? "a closed" : "an open"} mesh`
+  );
+  for (const [what, actual, exp] of [
+    ["vertices", vertices.length, expected.vertices],
+    ["edges", edges.length, expected.edges],
+    ["faces", faces.length, expected.faces],
+  ] as [string, number, number][]) {
+    if (actual !== exp) fail(`expected ${exp} ${what} but got ${actual}`);
+  }
+
+  const position = new Map(vertices.map(({name, position}) => [name, position]));
+  const counts = expected.edgeLengths.map(() => 0);
+  for (const [a, b] of edges) {
+    const length = Math.hypot(...[0, 1, 2].map(i => position.get(a)[i] - position.get(b)[i]));
+    const i = expected.edgeLengths.findIndex(([l]) => Math.abs(l - length) < tolerance);
+    if (i < 0) fail(`unexpected length of edge ${a}-${b}: ${length}`);
+    counts[i]++;
+  }
+  expected.edgeLengths.forEach(([length, count], i) => {
+    if (counts[i] !== count) fail(
+      `expected ${count} edges of length ${length} but got ${counts[i]}`
+    );
+  });
+}
+
+/**
+ * `fold auto` applied to the star must give the same polyhedron as the
+ * script (up to a rigid motion).  So we compare the edges and the distances
+ * between all pairs of vertices.
+ */
+function checkFoldAuto(name: string) {
+  const {setup, transform} = examples[name];
+  const manual = createFolding(setup);
+  for (const line of commandLines(transform)) manual.apply(parseCommand(line));
+  const tipName = commandLines(transform).map(parseCommand).findLast(c => c.type === "contract")?.tipName;
+  const auto = createFolding(setup);
+  auto.apply({type: "fold", tipName});
+
+  const expected = manual.snapshot(), actual = auto.snapshot();
+  const edgeKeys = ({edges}: Snapshot) => edges.map(e => e.toSorted().join("-")).sort().join(" ");
+  if (edgeKeys(actual) !== edgeKeys(expected)) fail(
+    `different edges: ${edgeKeys(actual)} instead of ${edgeKeys(expected)}`
+  );
+  const distances = ({vertices}: Snapshot) => {
+    const position = new Map(vertices.map(({name, position}) => [name, position]));
+    const names = [...position.keys()].sort();
+    return names.flatMap((a, i) => names.slice(i + 1).map(b => ({
+      pair: `${a}-${b}`,
+      d: Math.hypot(...[0, 1, 2].map(k => position.get(a)[k] - position.get(b)[k])),
+    })));
+  };
+  const actualDistances = distances(actual);
+  distances(expected).forEach(({pair, d}, i) => {
+    if (!(Math.abs(actualDistances[i]?.d - d) < tolerance)) fail(
+      `distance ${pair}: ${actualDistances[i]?.d} instead of ${d}`
+    );
+  });
+}
+
+/**
+ * The intrinsic edges of the star: The Delaunay triangulation has the
+ * Delaunay property, the polyhedron has the edges of the manually folded
+ * example, and edges given as star segments have the lengths of these
+ * segments.
+ */
+function checkStarEdges(name: string) {
+  const {setup, transform} = examples[name];
+  const folding = createFolding(setup);
+  const {mesh} = folding;
+  const position = new Map(folding.snapshot().vertices.map(({name, position}) => [name, position]));
+  const tri = mesh.intrinsicTriangulation();
+  tri.makeDelaunay();
+  const nonDelaunay = tri.edges().filter(h => !tri.isDelaunay(h));
+  if (nonDelaunay.length > 0) fail(
+    `non-Delaunay edges ${nonDelaunay.map(h => tri.edgeName(h)).join(", ")}`
+  );
+
+  const {delaunay, polyhedron} = mesh.starEdges() ?? fail(`no star edges`);
+  if (!polyhedron) fail(`no polyhedron`);
+  for (const {from, to, length, segment} of [...delaunay, ...polyhedron]) {
+    if (!segment) continue;
+    const [p, q] = segment.map(n => position.get(n));
+    const d = Math.hypot(...[0, 1, 2].map(k => p[k] - q[k]));
+    if (!(Math.abs(d - length) < tolerance)) fail(
+      `segment ${segment.join("-")} of edge ${from}-${to} has length ${d} instead of ${length}`
+    );
+  }
+
+  for (const line of commandLines(transform)) folding.apply(parseCommand(line));
+  if (polyhedron.length !== folding.snapshot().edges.length) fail(
+    `${polyhedron.length} polyhedron edges instead of ${folding.snapshot().edges.length}`
+  );
+}
+
+/** A degenerate star (like the one of the "empty" example) has no intrinsic edges. */
+function checkDegenerateStarEdges() {
+  const {mesh} = createFolding(examples.empty.setup);
+  const edges = mesh.starEdges();
+  if (edges !== undefined) fail(`${edges.delaunay.length} intrinsic edges for a degenerate star`);
+}
+
+/** Notch specifications in the setup that must be rejected */
+function checkNotchErrors() {
+  const expectFailure = (what: string, setup: string) => {
+    try {
+      createFolding(setup);
+    } catch {
+      return;
+    }
+    fail(`a setup with ${what} did not fail`);
+  };
+  expectFailure("unequal notch edges", "a 12 apex 10 10\nb 6");
+  expectFailure("an outward notch", "a 12 apex 2\nb 6");
+  expectFailure("a non-positive height", "a 12 height 0\nb 6");
+  expectFailure("an invalid height", "a 12 height x\nb 6");
+  expectFailure("a missing height", "a 12 height\nb 6");
+}
+
+/**
+ * The Thurston star given as Eisenstein integers must be the same as the
+ * one given with clock steps (or rotated by 90° for the Baez orientation).
+ */
+function checkEisenstein() {
+  const expected = createFolding(examples.thurston.setup).snapshot();
+  const edges = `
+a 2+ω
+b 1+ω
+c 2+3ω
+d 1+3w
+e -1+ω
+f -2
+g -2-ω
+h -2-2ω
+i -2 -3ω
+j -2ω
+k 3-ω
+`;
+  compare(createFolding("eisenstein thurston" + edges).snapshot(), expected);
+  compare(createFolding("eisenstein baez" + edges).snapshot(), {
+    ...expected,
+    vertices: expected.vertices.map(({name, position: [x, y, z]}) =>
+      ({name, position: [y, -x, z]})
+    ),
+  });
+}
+
+export default function checkExamples() {
+  const {run, failures} = checkRunner();
+  for (const name of Object.keys(examples)) {
+    run(`example "${name}"`, () => checkExample(name));
+  }
+  for (const name of Object.keys(examples)) {
+    if (expectations[name]?.closed) run(`"fold auto" for example "${name}"`, () => checkFoldAuto(name));
+    if (expectations[name]?.closed) run(`intrinsic edges for example "${name}"`, () => checkStarEdges(name));
+  }
+  run("intrinsic edges of a degenerate star", checkDegenerateStarEdges);
+  run("notch errors", checkNotchErrors);
+  run("Eisenstein setup", checkEisenstein);
+  return failures();
+}
@@ -0,0 +1,70 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, parseCommand } from "../folding";
+import { commandLines } from "../macros";
+import { toGLTF, toOBJ, toSTL } from "../exporters";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the 3D exports of the final states of the shipped examples:
+- The OBJ file has one vertex line per vertex and one face line per face,
+  and each vertex name is a group with a point element for that vertex.
+- The STL file has the announced number of triangles and (for closed meshes)
+  encloses a positive volume, that is, the normals point outward.
+- The glTF buffer has the announced size.
+*/
+
+function checkExample(name: string) {
+  const {setup, transform} = examples[name];
+  const folding = createFolding(setup);
+  for (const line of commandLines(transform)) folding.apply(parseCommand(line));
+  const snapshot = folding.snapshot();
+  const closed = folding.mesh.boundary === undefined;
+
+  const obj = toOBJ(snapshot).split("\n");
+  const nLines = (prefix: string) => obj.filter(l => l.startsWith(prefix)).length;
+  if (nLines("v ") !== snapshot.vertices.length) fail(`OBJ: wrong number of vertices`);
+  if (nLines("f ") !== snapshot.faces.length) fail(`OBJ: wrong number of faces`);
+  const vertexLines = obj.filter(l => l.startsWith("v "));
+  const groups = new Map<string, string[]>();
+  let group: string[];
+  for (const l of obj) {
+    if (l.startsWith("g ")) groups.set(l.slice(2), group = []);
+    else if (l.startsWith("p ")) group.push(l.slice(2));
+  }
+  snapshot.vertices.forEach(({name, position}) => {
+    const points = groups.get(name) ?? fail(`OBJ: no group for vertex ${name}`);
+    if (points.length !== 1) fail(`OBJ: ${points.length} point elements for vertex ${name}`);
+    const coords = vertexLines[Number(points[0]) - 1]?.split(/\s+/).slice(1, 4).map(Number);
+    if (coords?.join(" ") !== position.join(" ")) fail(`OBJ: wrong point for vertex ${name}`);
+  });
+
+  const stl = new DataView(toSTL(snapshot));
+  const nTriangles = stl.getUint32(80, true);
+  if (stl.byteLength !== 84 + 50 * nTriangles) fail(`STL: wrong size`);
+  let volume = 0;
+  for (let i = 0; i < nTriangles; i++) {
+    const f = (k: number) => stl.getFloat32(84 + 50 * i + 4 * k, true);
+    const [p, q, r] = [3, 6, 9].map(k => [f(k), f(k + 1), f(k + 2)]);
+    volume +=
+      p[0] * (q[1] * r[2] - q[2] * r[1]) +
+      p[1] * (q[2] * r[0] - q[0] * r[2]) +
+      p[2] * (q[0] * r[1] - q[1] * r[0]);
+  }
+  if (closed && !(volume > 0)) fail(`STL: not oriented outward (volume ${volume / 6})`);
+
+  const gltf = toGLTF(snapshot);
+  const count = gltf.accessors[0].count;
+  if (count !== 3 * nTriangles) fail(`glTF: expected ${3 * nTriangles} vertices, got ${count}`);
+  if (gltf.buffers[0].byteLength !== 3 * count * 12) fail(`glTF: wrong buffer size`);
+  const base64 = gltf.buffers[0].uri.split(",")[1];
+  if (atob(base64).length !== gltf.buffers[0].byteLength) fail(`glTF: wrong buffer data`);
+}
+
+export default function checkExporters() {
+  const {run, failures} = checkRunner();
+  for (const name of Object.keys(examples)) {
+    run(`exports of example "${name}"`, () => checkExample(name));
+  }
+  return failures();
+}
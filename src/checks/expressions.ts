@@ -0,0 +1,128 @@
+import { fail } from "../utils";
+import { parseCommand } from "../folding";
+import { evaluate } from "../expressions";
+import { commandLines } from "../macros";
+import { checkRunner } from "./runner";
+
+/*
+Checks for numeric expressions and `let` in the transform language:
+- Expressions evaluate to the expected values (precedence, degree literals,
+  constants, and functions).
+- Invalid expressions and names other than the known constants and
+  functions are rejected.
+- `bend` accepts expressions (also with spaces) as its angle.
+- `let` variables are replaced by their values.
+*/
+
+const tolerance = 1e-12;
+
+function checkValues() {
+  for (const [text, expected] of [
+    ["1 + 2 * 3", 7],
+    ["(1 + 2) * 3", 9],
+    ["-2^2", -4],
+    ["2^3^2", 512],
+    ["2^-1", .5],
+    ["8 / 4 / 2", 1],
+    [".5e1", 5],
+    ["180deg", Math.PI],
+    ["90°", Math.PI / 2],
+    ["pi - acos(-sqrt(5)/3)", 0.7297276562269663],
+    ["180deg - dihedral_icosahedron", 0.7297276562269663],
+    ["dihedral_cube - 90deg", 0],
+    ["atan2(1, 1) * 4", Math.PI],
+  ] as [string, number][]) {
+    const value = evaluate(text);
+    if (!(Math.abs(value - expected) < tolerance)) fail(`"${text}" gives ${value} instead of ${expected}`);
+  }
+}
+
+function checkInvalid() {
+  for (const text of [
+    "", "1 +", "(1", "2a", "foo", "sqrt", "sqrt(1, 2)", "constructor", "toString(1)",
+    "acos(2)", "1/0", "1 2",
+  ]) {
+    let failed = false;
+    try {
+      evaluate(text);
+    } catch {
+      failed = true;
+    }
+    if (!failed) fail(`"${text}" should be rejected`);
+  }
+}
+
+function checkBend() {
+  const command = parseCommand("bend pi - acos(-sqrt(5)/3) e.1 f");
+  if (command.type !== "bend") fail(`unexpected command type ${command.type}`);
+  if (command.vertices.join() !== "e.1,f") fail(`unexpected vertices ${command.vertices.join()}`);
+  if (!(Math.abs(command.angle - 0.7297276562269663) < tolerance)) fail(`unexpected angle ${command.angle}`);
+  for (const line of ["bend 41.8deg a", "bend pi/ a b", "bend x a b"]) {
+    let failed = false;
+    try {
+      parseCommand(line);
+    } catch {
+      failed = true;
+    }
+    if (!failed) fail(`"${line}" should be rejected`);
+  }
+}
+
+function checkLet() {
+  const lines = commandLines(`
+let a = -.5
+let b = a^2
+bend a x b.1
+for a in c d
+  bend b a e
+end
+`);
+  const expected = ["bend (-0.5) x b.1", "bend 0.25 c e", "bend 0.25 d e"];
+  if (lines.join("\n") !== expected.join("\n")) fail(`unexpected lines:\n${lines.join("\n")}`);
+  // Variables named like vertices are only substituted where numbers are expected:
+  const numericLines = commandLines(`
+let k = 1
+let n = 50
+bend k k a
+bend 2 * k k^a b
+bend k + a b
+reattach k a
+macro m A P
+  bend A P b
+end
+m k k
+for K in k
+  bend .5 K b
+end
+contract n k
+`);
+  const numericExpected = [
+    "bend 1 k a", "bend 2 * 1 k^a b", "bend 1 + a b", "reattach k a",
+    "bend 1 k b", "bend .5 k b", "contract 50 k",
+  ];
+  if (numericLines.join("\n") !== numericExpected.join("\n")) fail(
+    `unexpected lines:\n${numericLines.join("\n")}`
+  );
+  for (const [script, message] of [
+    ["let pi = 3", `line 1: "pi" cannot be used as a variable name`],
+    ["let x = 2 *", "line 1:"],
+    ["let x 2", `line 1: expected "let <name> = <expression>"`],
+  ]) {
+    let error: string | undefined;
+    try {
+      commandLines(script);
+    } catch (e) {
+      error = e.message;
+    }
+    if (!error?.includes(message)) fail(`expected error "${message}" but got "${error}"`);
+  }
+}
+
+export default function checkExpressions() {
+  const {run, failures} = checkRunner();
+  run("values of expressions", checkValues);
+  run("invalid expressions", checkInvalid);
+  run("expressions as bending angles", checkBend);
+  run("let variables", checkLet);
+  return failures();
+}
@@ -0,0 +1,127 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, parseCommand, ScriptRunner, Snapshot } from "../folding";
+import { commandLines } from "../macros";
+import { checkRunner } from "./runner";
+
+/*
+Checks for state snapshots, undo/redo, and incremental re-runs,
+using the shipped examples.  An incremental re-run must give the same
+final state as a full run, but compute only the phases after the part
+shared with the previous run.  A failing command must leave the state
+unchanged.
+
+States are compared by vertex names and positions and by the sets of edges
+and faces (in terms of vertex names).  Element ids are not compared as they
+differ between runs.
+*/
+
+const tolerance = 1e-9;
+
+export function compare(actual: Snapshot, expected: Snapshot) {
+  const normalize = ({vertices, edges, faces}: Snapshot) => ({
+    vertices: new Map(vertices.map(({name, position}) => [name, position])),
+    edges: edges.map(e => e.toSorted().join("-")).sort().join(" "),
+    faces: faces.map(f => f.vertices.join(",")).sort().join(" "),
+  });
+  const a = normalize(actual), e = normalize(expected);
+  if (a.edges !== e.edges) fail(`edges differ`);
+  if (a.faces !== e.faces) fail(`faces differ`);
+  if (a.vertices.size !== e.vertices.size) fail(`numbers of vertices differ`);
+  for (const [name, pos] of e.vertices) {
+    const aPos = a.vertices.get(name) ?? fail(`missing vertex ${name}`);
+    if (pos.some((x, i) => !(Math.abs(x - aPos[i]) < tolerance))) fail(
+      `vertex ${name} moved`
+    );
+  }
+}
+
+function checkUndoRedo(name: string) {
+  const {setup, transform} = examples[name];
+  const commands = commandLines(transform).map(parseCommand);
+  const folding = createFolding(setup);
+  const snapshots = [folding.snapshot()];
+  for (const command of commands) {
+    folding.apply(command);
+    snapshots.push(folding.snapshot());
+  }
+  for (let i = commands.length - 1; i >= 0; i--) {
+    if (folding.undo() !== commands[i]) fail(`undo returned the wrong command`);
+    folding.mesh.checkWithData();
+    compare(folding.snapshot(), snapshots[i]);
+  }
+  if (folding.undo() !== undefined) fail(`undo beyond the setup`);
+  for (let i = 0; i < commands.length; i++) {
+    if (folding.redo() !== commands[i]) fail(`redo returned the wrong command`);
+    folding.mesh.checkWithData();
+    compare(folding.snapshot(), snapshots[i + 1]);
+  }
+  if (folding.redo() !== undefined) fail(`redo beyond the last command`);
+}
+
+function checkFailedCommand() {
+  const {setup, transform} = examples.thurston;
+  const folding = createFolding(setup);
+  const initial = folding.snapshot();
+  const [first] = commandLines(transform).map(parseCommand);
+  folding.apply(first);
+  const expected = folding.snapshot();
+  // The first bend succeeds, but then `b` and `a` have two common faces:
+  let failed = false;
+  try {
+    folding.apply(parseCommand("bend .5 a b a"));
+  } catch {
+    failed = true;
+  }
+  if (!failed) fail(`the command did not fail`);
+  folding.mesh.checkWithData();
+  compare(folding.snapshot(), expected);
+  if (folding.undo() !== first) fail(`undo returned the wrong command`);
+  compare(folding.snapshot(), initial);
+}
+
+function checkIncremental(name: string) {
+  const {setup, transform} = examples[name];
+  const lines = commandLines(transform);
+  const lastSnapshot = (runner: ScriptRunner<Snapshot>, transform: string) => {
+    const phases = runner.run(setup, transform);
+    if (phases.length !== commandLines(transform).length + 1) fail(
+      `unexpected number of phases`
+    );
+    return phases.at(-1);
+  };
+
+  const expected = lastSnapshot(new ScriptRunner(f => f.snapshot()), transform);
+
+  // Run a prefix and then the full script, and the other way round,
+  // recording the titles of the phases actually computed:
+  let computed: string[] = [];
+  const runner = new ScriptRunner((f, title) => {
+    computed.push(title);
+    return f.snapshot();
+  });
+  const half = Math.floor(lines.length / 2);
+  for (const [n, expectedTitles] of [
+    [half, ["setup", ...lines.slice(0, half)]],
+    [lines.length, lines.slice(half)],
+    [0, []],
+    [lines.length, lines],
+  ] as const) {
+    computed = [];
+    lastSnapshot(runner, lines.slice(0, n).join("\n"));
+    if (computed.join("\n") !== expectedTitles.join("\n")) fail(
+      `running ${n} lines computed ${computed.length} phases instead of ${expectedTitles.length}`
+    );
+  }
+  compare(runner.phases.at(-1), expected);
+}
+
+export default function checkHistory() {
+  const {run, failures} = checkRunner();
+  for (const name of Object.keys(examples)) {
+    run(`undo/redo for example "${name}"`, () => checkUndoRedo(name));
+    run(`incremental re-run for example "${name}"`, () => checkIncremental(name));
+  }
+  run("failed command", checkFailedCommand);
+  return failures();
+}
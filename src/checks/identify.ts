@@ -0,0 +1,73 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, parseCommand } from "../folding";
+import { commandLines } from "../macros";
+import { ambo, canonicalForm, expand, Faces, identifyMesh, identifyPolyhedron, knownPolyhedra, prism } from "../identify";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the combinatorial identification of polyhedra:
+- The library consists of pairwise different polyhedra and has the
+  expected automorphism counts for some of them.
+- Identification does not depend on the vertex numbering, the starting
+  vertices of the faces, or the orientation (mirror images).
+- The closed examples are identified.
+*/
+
+function checkLibrary() {
+  const byName = new Map(knownPolyhedra().values().map(entry => [entry.name, entry.faces]));
+  for (const [name, automorphisms, rotations] of [
+    ["tetrahedron", 24, 12],
+    ["cube", 48, 24],
+    ["icosahedron", 120, 60],
+    ["snub cube", 24, 24],
+    ["snub disphenoid (J84)", 8, 4],
+  ] as [string, number, number][]) {
+    const faces = byName.get(name) ?? fail(`${name} not in the library`);
+    const form = canonicalForm(faces);
+    if (form.automorphisms !== automorphisms || form.rotations !== rotations) fail(
+      `${name}: ${form.automorphisms}/${form.rotations} automorphisms instead of ${automorphisms}/${rotations}`
+    );
+  }
+}
+
+function checkInvariance() {
+  const shuffle = (faces: Faces): Faces => {
+    const n = new Set(faces.flat()).size;
+    const perm = Array.from({length: n}, (_, i) => (i * 7 + 3) % n);
+    return faces.map((face, f) => {
+      const shift = f % face.length;
+      return [...face.slice(shift), ...face.slice(0, shift)].map(u => perm[u]);
+    }).reverse();
+  };
+  const mirror = (faces: Faces) => faces.map(face => [...face].reverse());
+  for (const [expected, faces] of [
+    ["cuboctahedron", shuffle(ambo(prism(4)))],
+    ["snub cube", mirror(expand(prism(4), true))],
+  ] as [string, Faces][]) {
+    const {name} = identifyPolyhedron(faces);
+    if (name !== expected) fail(`identified ${expected} as ${name}`);
+  }
+}
+
+function checkExample(example: string, expected: string | undefined) {
+  const {setup, transform} = examples[example];
+  const folding = createFolding(setup);
+  for (const line of commandLines(transform)) folding.apply(parseCommand(line));
+  const {name} = identifyMesh(folding.mesh);
+  if (name !== expected) fail(`identified as ${name} instead of ${expected}`);
+}
+
+export default function checkIdentify() {
+  const {run, failures} = checkRunner();
+  run("library of known polyhedra", checkLibrary);
+  run("identification independent of numbering and orientation", checkInvariance);
+  for (const [example, expected] of [
+    ["icosahedron2", "icosahedron"],
+    ["octahedron", "octahedron"],
+    ["thurston", undefined],
+  ]) {
+    run(`identification of example "${example}"`, () => checkExample(example, expected));
+  }
+  return failures();
+}
@@ -0,0 +1,133 @@
+import { fail, getLines } from "../utils";
+import examples from "../examples";
+import { createFolding, parseCommand, ScriptRunner, Snapshot } from "../folding";
+import { expandScript, lastStatement } from "../macros";
+import { compare } from "./history";
+import { checkRunner } from "./runner";
+
+/*
+Checks for macros and loops in the transform language:
+- A version of the "icosahedron2" example using a macro and loops expands
+  to the original commands and gives the same result when run.
+- Generated lines know their source line, their top-level statement, and
+  how they were generated.
+- Invalid macro and loop syntax is reported with the source line.
+- `lastStatement(...)` finds complete blocks.
+*/
+
+const icosahedron2 = `
+for (P,Q) in (a,b) (c,d) (e,f) (g,h) (i,j)
+  reattach P Q
+end
+reattach j k
+
+macro steps P Q R S
+  bend .5 P.1 R.0
+  bend .5 Q R.0
+  bend .5 Q S
+end
+for (P,Q,R,S) in (a,b,c,d) (c,d,e,f) (e,f,g,h)
+  steps P Q R S
+end
+bend .5 g.1 i.0
+bend .5 h i.0
+bend .5 h j.0
+bend .5 i.1 a.0
+bend .5 j.1 a.0
+bend .5 j.1 b
+
+// the tip:
+for T in b d f h
+  bend .5 k T
+end
+contract 100 l
+`;
+
+function checkExpansion() {
+  const expected = getLines(examples.icosahedron2.transform);
+  const actual = expandScript(icosahedron2).map(({command}) => command);
+  if (actual.join("\n") !== expected.join("\n")) fail(
+    `unexpected expansion:\n${actual.join("\n")}`
+  );
+}
+
+function checkRun() {
+  const {setup, transform} = examples.icosahedron2;
+  const folding = createFolding(setup);
+  for (const line of getLines(transform)) folding.apply(parseCommand(line));
+  const titles: string[] = [];
+  const snapshots = new ScriptRunner((folding, logTitle, logText, error) => {
+    if (error) fail(`phase "${logTitle}" failed: ${error}`);
+    titles.push(logTitle);
+    return folding.snapshot();
+  }).run(setup, icosahedron2);
+  compare(snapshots.at(-1) as Snapshot, folding.snapshot());
+  const title = "bend .5 d e.0 (line 9 in steps c d e f (line 13), P=c Q=d R=e S=f (line 12))";
+  if (!titles.includes(title)) fail(`missing phase title "${title}"`);
+  if (!titles.includes("reattach j k")) fail(`plain lines should be used as titles`);
+}
+
+function checkOrigins() {
+  const lines = expandScript(`
+macro m X
+  bend .5 X.1 X
+end
+for (A, B) in (a, b) (c, d)
+  m B
+end
+`);
+  const origins = lines.map(({command, line, statement, via}) => [command, line, statement, ...via].join(" / "));
+  const expected = [
+    "bend .5 b.1 b / 3 / 5 / m b (line 6) / A=a B=b (line 5)",
+    "bend .5 d.1 d / 3 / 5 / m d (line 6) / A=c B=d (line 5)",
+  ];
+  if (origins.join("\n") !== expected.join("\n")) fail(
+    `unexpected origins:\n${origins.join("\n")}`
+  );
+}
+
+function checkErrors() {
+  for (const [script, message] of [
+    ["bend .5 a b\nfor X in a b\nbend .5 X c", `line 2: "for X in a b" has no matching "end"`],
+    ["bend .5 a b\nend", `line 2: "end" without "macro" or "for"`],
+    ["macro m X Y\nbend .5 X Y\nend\nm a", "line 4: macro m expects 2 args but got 1"],
+    ["for (X,Y) in (a,b) (c)\nbend .5 X Y\nend", "line 1: 1 values (c) for 2 parameters"],
+    ["macro bend X\nend", `line 1: "bend" cannot be used as a macro name`],
+    ["macro m X X\nend", "line 1: duplicate parameter names"],
+    ["macro m\nm\nend\nm", "macros nested too deeply"],
+  ]) {
+    let error: string | undefined;
+    try {
+      expandScript(script);
+    } catch (e) {
+      error = e.message;
+    }
+    if (!error?.includes(message)) fail(`expected error "${message}" but got "${error}"`);
+  }
+  const titles: string[] = [];
+  new ScriptRunner((folding, logTitle, logText, error) => {
+    titles.push(error ? `${logTitle}: ${error}` : logTitle);
+  }).run(examples.icosahedron2.setup, "bend .5 a b\nend");
+  if (titles.join() !== `setup,macro expansion: ParseError: line 2: "end" without "macro" or "for"`) fail(
+    `unexpected phases: ${titles.join()}`
+  );
+}
+
+function checkLastStatement() {
+  const text = "bend .5 a b\nfor X in c d\n  bend .5 X e\n  // comment\nend\n\n// trailing comment";
+  const statement = lastStatement(text);
+  if (statement?.start !== 1 || statement?.end !== 5) fail(
+    `unexpected range ${JSON.stringify(statement)}`
+  );
+  if (lastStatement("// nothing\n") !== undefined) fail(`statement found in a comment`);
+}
+
+export default function checkMacros() {
+  const {run, failures} = checkRunner();
+  run("expansion of macros and loops", checkExpansion);
+  run("running a script with macros and loops", checkRun);
+  run("origins of generated lines", checkOrigins);
+  run("invalid macros and loops", checkErrors);
+  run("last statement of a script", checkLastStatement);
+  return failures();
+}
@@ -0,0 +1,297 @@
+import { fail } from "../utils";
+import { HalfEdge, Mesh, Vertex } from "../mesh";
+import { checkRunner } from "./runner";
+
+/*
+Randomized checks for the half-edge operations in `Mesh`.
+
+We start from a few cores and apply random sequences of
+`splitVertex`, `splitLoop`, `contractEdge`, `dropEdge`, `addCore` and
+`dropCore`.  After each step we run `Mesh.check()` and verify
+- the expected changes of the vertex/edge/loop counts and
+- the Euler characteristic (V - E + F = 2 per connected component,
+  since all operations keep us on spheres).
+
+From time to time an operation is immediately followed by its inverse
+(split vertex/contract edge, split loop/drop edge, add core/drop core)
+and we check that the original connectivity has been restored exactly.
+*/
+
+/** A small seedable PRNG (mulberry32) so that failures can be reproduced */
+function makeRandom(seed: number) {
+  let a = seed >>> 0;
+  const random = () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const pick = <T>(items: T[]): T | undefined =>
+    items.length === 0 ? undefined : items[Math.floor(random() * items.length)];
+  return {random, pick};
+}
+
+// Keep the mesh away from the size limits in mesh.ts:
+const MAX_CYCLE = 20;
+
+function halfEdges(mesh: Mesh) {
+  return mesh.loops.values().flatMap(l => l.halfEdges()).toArray();
+}
+
+function counts(mesh: Mesh) {
+  const nHalfEdgesViaLoops = halfEdges(mesh).length;
+  const nHalfEdgesViaVertices =
+    mesh.vertices.values().flatMap(v => v.halfEdgesOut()).toArray().length;
+  if (nHalfEdgesViaLoops !== nHalfEdgesViaVertices) fail(
+    `${nHalfEdgesViaLoops} half-edges found via loops but ${
+      nHalfEdgesViaVertices} via vertices`
+  );
+  if (nHalfEdgesViaLoops % 2 !== 0) fail(`odd number of half-edges`);
+  return {V: mesh.vertices.size, E: nHalfEdgesViaLoops / 2, F: mesh.loops.size};
+}
+
+function countComponents(mesh: Mesh) {
+  const seen = new Set<Vertex>();
+  let n = 0;
+  for (const start of mesh.vertices) {
+    if (seen.has(start)) continue;
+    n++;
+    const todo = [start];
+    while (todo.length > 0) {
+      const v = todo.pop();
+      if (seen.has(v)) continue;
+      seen.add(v);
+      todo.push(...v.neighbors());
+    }
+  }
+  return n;
+}
+
+/** Connectivity in terms of object ids, for comparisons */
+function signature(mesh: Mesh) {
+  return JSON.stringify({
+    vertices: [...mesh.vertices].map(v => v.id).sort(),
+    loops: [...mesh.loops].map(l => l.id).sort(),
+    halfEdges: halfEdges(mesh).map(he =>
+      [he.id, he.prev.id, he.next.id, he.twin.id, he.to.id, he.loop.id].join(" ")
+    ).sort(),
+  });
+}
+
+const isCore = (v: Vertex) => {
+  const he = v.firstHalfEdgeOut;
+  return he.to === v && he.next === he && he.twin.next === he.twin;
+};
+
+const cycleLength = (iter: Iterable<unknown>) => [...iter].length;
+
+type Step = {
+  description: string,
+  delta: {V: number, E: number, F: number},
+  run: () => void,
+  inverse?: () => void,
+};
+
+type Random = ReturnType<typeof makeRandom>;
+
+function randomStep(mesh: Mesh, {random, pick}: Random): Step | undefined {
+  const create = pick(["left", "right", "both"] as const);
+  switch (pick(["splitVertex", "splitLoop", "contractEdge", "dropEdge", "addCore", "dropCore"])) {
+    case "splitVertex": {
+      const v = pick([...mesh.vertices]);
+      if (cycleLength(v.halfEdgesOut()) >= MAX_CYCLE) return undefined;
+      const incoming = [...v.halfEdgesIn()];
+      const he0 = pick(incoming), he1 = pick(incoming);
+      if (cycleLength(he0.loop.halfEdges()) >= MAX_CYCLE) return undefined;
+      if (cycleLength(he1.loop.halfEdges()) >= MAX_CYCLE) return undefined;
+      let newEdge: [HalfEdge, HalfEdge];
+      return {
+        description: `splitVertex(${he0}, ${he1}, ${create}) at ${v}`,
+        delta: {V: 1, E: 1, F: 0},
+        run: () => {
+          newEdge = mesh.splitVertex(he0, he1, {create});
+          // With "both" the caller is responsible for removing the
+          // original vertex (as in `MyMesh.reattach`).
+          if (create === "both") mesh.vertices.delete(v);
+        },
+        inverse: create === "both" ? undefined : () => {
+          // Contract in the direction that keeps the original vertex:
+          const [he01, he10] = newEdge;
+          mesh.contractEdge(create === "left" ? he10 : he01);
+        },
+      };
+    }
+    case "splitLoop": {
+      const l = pick([...mesh.loops]);
+      if (cycleLength(l.halfEdges()) >= MAX_CYCLE) return undefined;
+      const hes = [...l.halfEdges()];
+      const he0 = pick(hes), he1 = pick(hes);
+      if (cycleLength(he0.to.halfEdgesOut()) >= MAX_CYCLE) return undefined;
+      if (cycleLength(he1.to.halfEdgesOut()) >= MAX_CYCLE) return undefined;
+      let newEdge: [HalfEdge, HalfEdge];
+      return {
+        description: `splitLoop(${he0}, ${he1}, ${create}) at ${l}`,
+        delta: {V: 0, E: 1, F: 1},
+        run: () => {
+          newEdge = mesh.splitLoop(he0, he1, {create});
+          if (create === "both") mesh.loops.delete(l);
+        },
+        inverse: create === "both" ? undefined : () => {
+          // Drop in the direction that keeps the original loop:
+          const [he0New, he1New] = newEdge;
+          mesh.dropEdge(create === "left" ? he0New : he1New);
+        },
+      };
+    }
+    case "contractEdge": {
+      const he = pick(halfEdges(mesh).filter(he =>
+        he.to !== he.from &&
+        !(he.next === he.twin && he.prev === he.twin) &&
+        cycleLength(he.to.halfEdgesOut()) + cycleLength(he.from.halfEdgesOut()) < MAX_CYCLE
+      ));
+      if (!he) return undefined;
+      return {
+        description: `contractEdge(${he}) from ${he.from} to ${he.to}`,
+        delta: {V: -1, E: -1, F: 0},
+        run: () => { mesh.contractEdge(he); },
+      };
+    }
+    case "dropEdge": {
+      const he = pick(halfEdges(mesh).filter(he =>
+        he.loop !== he.twin.loop &&
+        !(he.next === he && he.twin.next === he.twin) &&
+        cycleLength(he.loop.halfEdges()) + cycleLength(he.twin.loop.halfEdges()) < MAX_CYCLE
+      ));
+      if (!he) return undefined;
+      return {
+        description: `dropEdge(${he}) between ${he.loop} and ${he.twin.loop}`,
+        delta: {V: 0, E: -1, F: -1},
+        run: () => { mesh.dropEdge(he); },
+      };
+    }
+    case "addCore": {
+      if (random() < .7) return undefined; // don't create too many components
+      let core: Vertex;
+      return {
+        description: `addCore()`,
+        delta: {V: 1, E: 1, F: 2},
+        run: () => { core = mesh.addCore()[0].to; },
+        inverse: () => { mesh.dropCore(core); },
+      };
+    }
+    case "dropCore": {
+      const v = pick([...mesh.vertices].filter(isCore));
+      if (!v || mesh.vertices.size === 1) return undefined;
+      return {
+        description: `dropCore(${v})`,
+        delta: {V: -1, E: -1, F: -2},
+        run: () => { mesh.dropCore(v); },
+      };
+    }
+  }
+}
+
+/**
+ * `Mesh.check()` requires unique names, but the operations reuse names
+ * (e.g., every core vertex is named "core").  So we rename new elements.
+ */
+function makeRenamer(mesh: Mesh) {
+  const named = new Set<{name: string}>();
+  let count = 0;
+  return () => {
+    for (const el of [...mesh.vertices, ...mesh.loops]) {
+      if (!named.has(el)) {
+        el.name = `${el.name}/${count++}`;
+        named.add(el);
+      }
+    }
+  };
+}
+
+function checkSequence(seed: number, nSteps: number) {
+  const rnd = makeRandom(seed);
+  const mesh = new Mesh(() => {}, fail);
+  const rename = makeRenamer(mesh);
+  mesh.addCore();
+  rename();
+  mesh.addCore();
+  rename();
+  let nComponents = 2;
+
+  for (let i = 0; i < nSteps; i++) {
+    const step = randomStep(mesh, rnd);
+    if (!step) continue;
+    const context = `seed ${seed}, step ${i}: ${step.description}`;
+    try {
+      const before = counts(mesh);
+      const sigBefore = step.inverse && rnd.random() < .3 ? signature(mesh) : undefined;
+
+      step.run();
+      rename();
+      mesh.check();
+      const after = counts(mesh);
+      for (const key of ["V", "E", "F"] as const) {
+        if (after[key] - before[key] !== step.delta[key]) fail(
+          `${key} changed by ${after[key] - before[key]} instead of ${step.delta[key]}`
+        );
+      }
+      nComponents += step.delta.F === 2 ? 1 : step.delta.F === -2 ? -1 : 0;
+      if (countComponents(mesh) !== nComponents) fail(
+        `expected ${nComponents} components but found ${countComponents(mesh)}`
+      );
+      if (after.V - after.E + after.F !== 2 * nComponents) fail(
+        `Euler characteristic ${after.V - after.E + after.F} for ${nComponents} components`
+      );
+
+      if (sigBefore) {
+        step.inverse();
+        mesh.check();
+        nComponents -= step.delta.F === 2 ? 1 : 0;
+        if (signature(mesh) !== sigBefore) fail(
+          `inverse operation did not restore the connectivity`
+        );
+      }
+    } catch (e) {
+      fail(`${context}: ${e.message}`);
+    }
+  }
+}
+
+/** Some hand-picked edge cases */
+function checkEdgeCases() {
+  const mesh = new Mesh(() => {}, fail);
+
+  // split a core vertex with he0 === he1, which creates a degree-1 vertex
+  const [he0, he1] = mesh.addCore();
+  const spike = mesh.splitVertex(he0, he0, {create: "left"});
+  mesh.check();
+  if (cycleLength(spike[0].to.halfEdgesOut()) !== 1) fail(
+    `expected a vertex with a single edge`
+  );
+
+  // split a loop with he0 === he1, which creates a 1-gon, and drop it again
+  const sig = signature(mesh);
+  const [, oneGon] = mesh.splitLoop(he1, he1, {create: "left"});
+  mesh.check();
+  if (oneGon.next !== oneGon) fail(`expected a 1-gon`);
+  mesh.dropEdge(oneGon.twin);
+  mesh.check();
+  if (signature(mesh) !== sig) fail(`dropping a 1-gon did not restore the mesh`);
+
+  // contract the spike again and drop the core
+  mesh.contractEdge(spike[1]);
+  mesh.check();
+  mesh.dropCore(he0.to);
+  mesh.check();
+  if (mesh.vertices.size + mesh.loops.size !== 0) fail(`mesh not empty`);
+}
+
+export default function checkMesh() {
+  const {run, failures} = checkRunner();
+  run("mesh edge cases", checkEdgeCases);
+  for (let seed = 1; seed <= 200; seed++) {
+    run(`mesh random sequence #${seed}`, () => checkSequence(seed, 100));
+  }
+  return failures();
+}
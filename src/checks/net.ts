@@ -0,0 +1,43 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { parseCommand } from "../folding";
+import { commandLines } from "../macros";
+import { createNet } from "../net";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the cut-and-fold nets of the shipped examples:
+- No problems are reported (as XML comments).
+- There is at least one crease line for each edge created by `bend` or
+  `bend2` and at least one cut line for each `reattach`.
+  (There may be more as lines crossing glued seams are split.)
+*/
+
+function checkExample(name: string) {
+  const {setup, transform} = examples[name];
+  const svg = createNet(setup, transform);
+  const comment = svg.match(/<!--(.*?)-->/);
+  if (comment) fail(`net: ${comment[1].trim()}`);
+
+  let creases = 0, cuts = 0;
+  for (const command of commandLines(transform).map(parseCommand)) {
+    switch (command.type) {
+      case "bend": creases += command.vertices.length - 1; break;
+      case "bend2": creases += 2; break;
+      case "reattach": cuts++; break;
+    }
+  }
+  const count = (regex: RegExp) => svg.match(regex)?.length ?? 0;
+  const nCreases = count(/<line class="(mountain|valley)"/g);
+  const nCuts = count(/<line class="cut"/g);
+  if (nCreases < creases) fail(`net: ${nCreases} crease lines for ${creases} creases`);
+  if (nCuts < cuts) fail(`net: ${nCuts} cut lines for ${cuts} cuts`);
+}
+
+export default function checkNet() {
+  const {run, failures} = checkRunner();
+  for (const name of Object.keys(examples)) {
+    run(`net for example "${name}"`, () => checkExample(name));
+  }
+  return failures();
+}
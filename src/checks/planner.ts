@@ -0,0 +1,59 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, parseCommand } from "../folding";
+import { commandLines } from "../macros";
+import { planFolding } from "../planner";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the folding planner:
+- For the closed examples a script is found.  It folds the star to a closed
+  polyhedron with the same numbers of vertices, edges, and faces as the
+  shipped script.
+- With a too small search depth the planner gives up and says why.
+- For invalid or degenerate setups the planner reports the problem
+  instead of throwing.
+*/
+
+function checkExample(name: string) {
+  const {setup, transform} = examples[name];
+  const {script, report} = planFolding(setup);
+  if (!script) fail(`no script found: ${report.join("; ")}`);
+
+  const counts = (transform: string) => {
+    const folding = createFolding(setup);
+    for (const line of commandLines(transform)) folding.apply(parseCommand(line));
+    const {vertices, edges, faces} = folding.snapshot();
+    return `${vertices.length}/${edges.length}/${faces.length}`;
+  };
+  const actual = counts(script), expected = counts(transform);
+  if (actual !== expected) fail(`planned script gives ${actual} instead of ${expected}`);
+}
+
+function checkGiveUp() {
+  const {script, report} = planFolding(examples.thurston.setup, {maxDepth: 1});
+  if (script) fail(`found a script with only one reattach command`);
+  if (!report.some(line => line.includes("depth limit"))) fail(
+    `depth limit not reported: ${report.join("; ")}`
+  );
+}
+
+function checkBadSetups() {
+  for (const setup of [examples.empty.setup, "a 2 2\nb 6"]) {
+    const {script, report} = planFolding(setup);
+    if (script) fail(`found a script for setup ${JSON.stringify(setup)}`);
+    if (!report.some(line => line.startsWith("cannot analyze the setup: "))) fail(
+      `setup problem not reported: ${report.join("; ")}`
+    );
+  }
+}
+
+export default function checkPlanner() {
+  const {run, failures} = checkRunner();
+  for (const name of ["thurston", "octahedron", "icosahedron2"]) {
+    run(`planner for example "${name}"`, () => checkExample(name));
+  }
+  run("planner giving up", checkGiveUp);
+  run("planner with invalid setups", checkBadSetups);
+  return failures();
+}
@@ -0,0 +1,44 @@
+import checkCurvature from "./curvature";
+import checkEnumerate from "./enumerate";
+import checkErrors from "./errors";
+import checkExamples from "./examples";
+import checkExporters from "./exporters";
+import checkExpressions from "./expressions";
+import checkHistory from "./history";
+import checkIdentify from "./identify";
+import checkMacros from "./macros";
+import checkMesh from "./mesh";
+import checkNet from "./net";
+import checkPlanner from "./planner";
+import checkSerialization from "./serialization";
+import checkSolver from "./solver";
+import checkSymmetry from "./symmetry";
+import checkValidate from "./validate";
+
+/*
+Entry point for `npm test`.  Each check module exports a function returning
+its number of failures (usually counted by `checkRunner()` from
+`runner.ts`).
+*/
+
+const failures = [
+  checkMesh,
+  checkSolver,
+  checkExamples,
+  checkCurvature,
+  checkHistory,
+  checkMacros,
+  checkExpressions,
+  checkErrors,
+  checkValidate,
+  checkSerialization,
+  checkExporters,
+  checkNet,
+  checkPlanner,
+  checkEnumerate,
+  checkIdentify,
+  checkSymmetry,
+].reduce((sum, check) => sum + check(), 0);
+
+console.log(failures === 0 ? "all checks succeeded" : `${failures} check(s) FAILED`);
+process.exitCode = failures === 0 ? 0 : 1;
@@ -0,0 +1,18 @@
+/**
+ * Helpers for a check module:  `run(what, fn)` calls `fn`, logging whether
+ * it succeeded (that is, did not throw), and `failures()` tells how many
+ * calls failed so far.
+ */
+export function checkRunner() {
+  let failures = 0;
+  const run = (what: string, fn: () => void) => {
+    try {
+      fn();
+      console.log(`ok: ${what}`);
+    } catch (e) {
+      failures++;
+      console.log(`FAILED: ${what}: ${e.message}`);
+    }
+  };
+  return {run, failures: () => failures};
+}
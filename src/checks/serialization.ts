@@ -0,0 +1,76 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, Folding, parseCommand } from "../folding";
+import { commandLines } from "../macros";
+import { serializeState } from "../serialization";
+import { compare } from "./history";
+import { checkRunner } from "./runner";
+
+/*
+Checks for saving and loading folding states, using the shipped examples:
+After each phase the state is saved, converted to JSON text and loaded again.
+The loaded state must be equivalent to the saved one and folding must
+continue from there exactly as without saving/loading.
+*/
+
+function reload(folding: Folding) {
+  const loaded = createFolding(JSON.stringify(folding.serialize()));
+  compare(loaded.snapshot(), folding.snapshot());
+  if (JSON.stringify(serializeState(loaded.mesh)) !== JSON.stringify(folding.serialize())) fail(
+    `serialization of the loaded state differs`
+  );
+  return loaded;
+}
+
+function checkExample(name: string) {
+  const {setup, transform} = examples[name];
+  const commands = commandLines(transform).map(parseCommand);
+
+  const folding = createFolding(setup);
+  reload(folding);
+  const half = Math.floor(commands.length / 2);
+  let resumed: Folding;
+  commands.forEach((command, i) => {
+    folding.apply(command);
+    reload(folding);
+    if (i + 1 === half) resumed = reload(folding);
+    else if (resumed) resumed.apply(command);
+  });
+  if (resumed) compare(resumed.snapshot(), folding.snapshot());
+}
+
+function checkErrors() {
+  const {setup} = examples.thurston;
+  const data = createFolding(setup).serialize();
+  const expectFailure = (what: string, text: string) => {
+    try {
+      createFolding(text);
+    } catch {
+      return;
+    }
+    fail(`loading a state with ${what} did not fail`);
+  };
+  expectFailure("invalid JSON", "{");
+  expectFailure("a wrong version", JSON.stringify({...data, version: 2}));
+  expectFailure("a dangling index", JSON.stringify({
+    ...data,
+    halfEdges: data.halfEdges.map((he, i) => i === 0 ? {...he, next: 9999} : he),
+  }));
+  expectFailure("inconsistent twins", JSON.stringify({
+    ...data,
+    halfEdges: data.halfEdges.map((he, i) => i === 0 ? {...he, twin: 0} : he),
+  }));
+  expectFailure("a missing position", JSON.stringify({
+    ...data,
+    vertices: data.vertices.map((v, i) => i === 0 ? {...v, position: [0, 0]} : v),
+  }));
+}
+
+export default function checkSerialization() {
+  const {run, failures} = checkRunner();
+  for (const name of Object.keys(examples)) {
+    run(`serialization of example "${name}"`, () => checkExample(name));
+  }
+  run("serialization errors", checkErrors);
+  return failures();
+}
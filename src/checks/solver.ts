@@ -0,0 +1,72 @@
+import { fail } from "../utils";
+import {
+  angle, angleResidual, cornerAngle, lengthResidual, levenbergMarquardt,
+  planarityResidual, Residual, sub, Vec3,
+} from "../solver";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the solver with non-convex faces:
+- The corner angle tells a reflex corner from its mirror image (where the
+  unsigned angle between the edges is the same).
+- The solver restores a perturbed face with a reflex or nearly straight
+  corner, using the residuals of `contract`.
+*/
+
+/** A dart-shaped quadrilateral with a reflex corner at index 2 */
+const dart: Vec3[] = [[0, 0, 0], [2, 1, 0], [.5, 0, 0], [2, -1, 0]];
+/** The dart with corner 2 mirrored at the line from corner 1 to corner 3 */
+const kite: Vec3[] = [[0, 0, 0], [2, 1, 0], [3.5, 0, 0], [2, -1, 0]];
+
+/** A pentagon with a slightly reflex corner at index 1 */
+const notched: Vec3[] = [[0, 0, 0], [1, .001, 0], [2, 0, 0], [2, -2, 0], [0, -2, 0]];
+
+const degrees = (x: number) => (x * 180 / Math.PI).toFixed(3);
+
+function checkMirror() {
+  const unsigned = (coords: Vec3[]) => angle(sub(coords[1], coords[2]), sub(coords[3], coords[2]));
+  if (Math.abs(unsigned(dart) - unsigned(kite)) > 1e-12) fail(
+    `expected equal unsigned angles, got ${degrees(unsigned(dart))} and ${degrees(unsigned(kite))}`
+  );
+  const reflex = cornerAngle(dart, 2), convex = cornerAngle(kite, 2);
+  const expected = unsigned(kite);
+  if (Math.abs(convex - expected) > 1e-12 || Math.abs(reflex + expected) > 1e-12) fail(
+    `expected corner angles ±${degrees(expected)}, got ${degrees(reflex)} and ${degrees(convex)}`
+  );
+  const residual = angleResidual("face angle", [0, 1, 2, 3], 2, reflex);
+  if (Math.abs(residual.f(dart)) > 1e-12) fail(`residual ${residual.f(dart)} for the dart itself`);
+  if (Math.abs(residual.f(kite)) < 1) fail(`residual ${residual.f(kite)} for the mirrored dart`);
+}
+
+/** The residuals used by `contract` for a single face */
+function faceResiduals(coords: Vec3[]): Residual[] {
+  const corners = coords.map((_, i) => i);
+  const n = corners.length;
+  return corners.flatMap(i => [
+    lengthResidual("edge length", i, (i + 1) % n, Math.hypot(...sub(coords[(i + 1) % n], coords[i]))),
+    angleResidual("face angle", corners, i, cornerAngle(coords, i)),
+    ...n > 3 ? [planarityResidual("face planarity", corners, i)] : [],
+  ]);
+}
+
+function checkSolve(coords: Vec3[], k: number) {
+  const residuals = faceResiduals(coords);
+  // a deterministic perturbation (also out of the plane)
+  const positions = coords.map(([x, y, z], i): Vec3 =>
+    [x + .03 * Math.sin(3 * i + 1), y + .03 * Math.cos(5 * i + 2), z + .03 * Math.sin(7 * i + 3)]
+  );
+  const {converged, iterations} = levenbergMarquardt(positions, residuals, {maxIterations: 100, tolerance: 1e-10});
+  if (!converged) fail(`no convergence after ${iterations} iterations`);
+  const expected = cornerAngle(coords, k), actual = cornerAngle(positions, k);
+  if (Math.abs(actual - expected) > 1e-8) fail(
+    `corner angle ${degrees(actual)} instead of ${degrees(expected)}`
+  );
+}
+
+export default function checkSolver() {
+  const {run, failures} = checkRunner();
+  run("signed corner angle of a reflex corner", checkMirror);
+  run("solving a face with a reflex corner", () => checkSolve(dart, 2));
+  run("solving a face with a nearly straight corner", () => checkSolve(notched, 1));
+  return failures();
+}
@@ -0,0 +1,68 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, parseCommand, Snapshot } from "../folding";
+import { commandLines } from "../macros";
+import { pointGroup, starSymmetry } from "../symmetry";
+import { Vec3 } from "../solver";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the symmetry detection:
+- Point groups of some vertex sets (without edges).
+- Star symmetry and point group of the folded polyhedron for examples.
+*/
+
+const snapshotOf = (positions: Vec3[]): Snapshot => ({
+  vertices: positions.map((position, i) => ({name: `v${i}`, position})),
+  edges: [],
+  faces: [],
+  peers: [],
+});
+
+const ring = (n: number, z: number, phase = 0): Vec3[] =>
+  Array.from({length: n}, (_, i) => {
+    const phi = 2 * Math.PI * i / n + phase;
+    return [Math.cos(phi), Math.sin(phi), z];
+  });
+
+/** Orbit of a point under the rotoreflection by 90° about the z axis */
+const s4Orbit = ([x, y, z]: Vec3): Vec3[] =>
+  [[x, y, z], [-y, x, -z], [-x, -y, z], [y, -x, -z]];
+
+const pointSets: [string, string, Vec3[]][] = [
+  ["tetrahedron", "Td", [[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1]]],
+  ["cube", "Oh", [-1, 1].flatMap(x => [-1, 1].flatMap(y => [-1, 1].map(z => [x, y, z] as Vec3)))],
+  ["triangular prism", "D3h", [...ring(3, 1), ...ring(3, -1)]],
+  ["twisted triangular prism", "D3", [...ring(3, 1), ...ring(3, -1, .3)]],
+  ["square antiprism", "D4d", [...ring(4, 1), ...ring(4, -1, Math.PI / 4)]],
+  ["square pyramid", "C4v", [...ring(4, 0), [0, 0, 1]]],
+  ["pentagonal ring", "D5h", ring(5, 0)],
+  ["S4 orbits", "S4", [...s4Orbit([1, .3, .5]), ...s4Orbit([.5, -.2, .1])]],
+];
+
+function checkPointGroup(expected: string, positions: Vec3[]) {
+  const {group} = pointGroup(snapshotOf(positions));
+  if (group !== expected) fail(`got ${group} instead of ${expected}`);
+}
+
+function checkExample(example: string, starGroup: string, finalGroup: string, order: number) {
+  const {setup, transform} = examples[example];
+  const folding = createFolding(setup);
+  const star = starSymmetry(folding.snapshot());
+  if (star.group !== starGroup) fail(`star symmetry ${star.group} instead of ${starGroup}`);
+  for (const line of commandLines(transform)) folding.apply(parseCommand(line));
+  const {group, elements} = pointGroup(folding.snapshot());
+  if (group !== finalGroup || elements.length !== order) fail(
+    `point group ${group} with ${elements.length} elements instead of ${finalGroup} with ${order}`
+  );
+}
+
+export default function checkSymmetry() {
+  const {run, failures} = checkRunner();
+  for (const [name, group, positions] of pointSets) {
+    run(`point group of ${name}`, () => checkPointGroup(group, positions));
+  }
+  run(`symmetry of example "octahedron"`, () => checkExample("octahedron", "D1", "Oh", 48));
+  run(`symmetry of example "icosahedron2"`, () => checkExample("icosahedron2", "C1", "Ih", 120));
+  return failures();
+}
@@ -0,0 +1,95 @@
+import { fail } from "../utils";
+import examples from "../examples";
+import { createFolding, parseCommand } from "../folding";
+import { commandLines } from "../macros";
+import { validateScript } from "../validate";
+import { checkRunner } from "./runner";
+
+/*
+Checks for the static check of transform scripts:
+- The examples have no problems.
+- After each command of an example (while the mesh has a boundary) the
+  simulated vertex names are the real ones:  Referring to all boundary
+  vertices is fine, referring to an interior vertex is a problem.
+- All problems of a script are reported, with their locations and notes.
+- A failing setup is reported as a problem (without a location).
+*/
+
+function checkExamples() {
+  for (const [name, {setup, transform}] of Object.entries(examples)) {
+    const problems = validateScript(setup, transform);
+    if (problems.length > 0) fail(`example "${name}": ${problems.map(p => p.error).join("; ")}`);
+  }
+}
+
+function checkNames() {
+  for (const [name, {setup, transform}] of Object.entries(examples)) {
+    const folding = createFolding(setup);
+    const {mesh} = folding;
+    const done: string[] = [];
+    for (const line of commandLines(transform)) {
+      folding.apply(parseCommand(line));
+      done.push(line);
+      if (!mesh.boundary) break;
+      const boundaryNames = mesh.boundary.vertices().map(v => v.name).toArray();
+      const problems = validateScript(setup, [...done, `bend .5 ${boundaryNames.join(" ")}`].join("\n"));
+      if (problems.length > 0) fail(
+        `example "${name}" after "${line}": ${problems.map(p => p.error).join("; ")}`
+      );
+      for (const v of mesh.vertices) {
+        if (v.loops().some(l => l === mesh.boundary)) continue;
+        const [problem] = validateScript(setup, [...done, `bend .5 ${v.name} ${boundaryNames[0]}`].join("\n"));
+        if (problem?.error.name !== "NonBoundaryVertexError") fail(
+          `example "${name}" after "${line}": interior vertex "${v.name}" not reported`
+        );
+      }
+    }
+  }
+}
+
+function checkAllProblems() {
+  const script = `
+reattach j i
+bend .5 j c
+frobnicate a
+bend2 + f g
+bend x a b
+reattach i k
+bend2 + f g h
+bend .5 g c
+contract 100 c
+contract 100 l
+bend .5 a b
+`;
+  const problems = validateScript(examples.thurston.setup, script).map(({error, location, note}) =>
+    [error.name, location.line, location.column, location.token, note ?? ""].join(" / ")
+  );
+  const expected = [
+    `UnknownVertexError / 3 / 9 / j / "j" was split into "j.0" and "j.1" by line 2`,
+    "ParseError / 4 / 1 / frobnicate / ",
+    "ParseError / 5 / 1 / bend2 + f g / ",
+    "ParseError / 6 / 6 / x / ",
+    `NonBoundaryVertexError / 9 / 9 / g / "g" is no longer on the boundary after line 8`,
+    "ScriptError / 10 / 14 / c / ",
+    `NonBoundaryVertexError / 12 / 9 / a / the mesh has no boundary after "contract" in line 11`,
+  ];
+  if (problems.join("\n") !== expected.join("\n")) fail(`unexpected problems:\n${problems.join("\n")}`);
+}
+
+function checkInvalidSetup() {
+  const problems = validateScript("a 2 2\nb 6", "bend .5 a b\nfrobnicate");
+  const summary = problems.map(({error, location}) => `${error.name} / ${location?.line}`).join(", ");
+  if (summary !== "ScriptError / undefined, ParseError / 2") fail(`unexpected problems: ${summary}`);
+  if (!problems[0].error.message.startsWith("invalid setup: polygon not closed")) fail(
+    `unexpected message: ${problems[0].error.message}`
+  );
+}
+
+export default function checkValidate() {
+  const {run, failures} = checkRunner();
+  run("static check of the examples", checkExamples);
+  run("simulated vertex names", checkNames);
+  run("reporting all problems", checkAllProblems);
+  run("reporting an invalid setup", checkInvalidSetup);
+  return failures();
+}
@@ -0,0 +1,252 @@
+#!/usr/bin/env node
+
+/*
+Headless runner for star-folding scripts.
+
+Usage: star-fold [--no-log] [--precision <digits>] [--save-state <file>]
+                 [--export <file>] [--net <file>] [--star-edges]
+                 [--symmetry] <setup-file> <transform-file>
+       star-fold --check <setup-file> <transform-file>
+       star-fold --plan [--target <file>] [--max-depth <n>] [--max-states <n>]
+                 <setup-file>
+       star-fold --enumerate [--edges <n>] [--max-norm <n>] [--max-area <n>]
+                 [--limit <n>]
+
+Runs the setup and the transform commands exactly as the web UI does and
+writes all phases as JSON to stdout.  The exit code is 1 if some phase
+failed.  A failed transform phase also reports the location of the error
+in the transform file (line, column, and the offending token).
+
+With `--save-state` the state after the last successful phase is written to
+the given file (see `serialization.ts`).  Such a file can be used as
+setup file to continue folding.
+
+With `--export` the last phase is exported as a 3D model.  The format
+(OBJ, binary STL, or glTF) is determined by the file extension
+(`.obj`, `.stl`, or `.gltf`).
+
+With `--net` a cut-and-fold net (SVG) for the script is written to the
+given file (see `net.ts`).
+
+The export and the net are only written if the last phase succeeded.
+
+With `--star-edges` the setup phase gets a property `starEdges` listing the
+edges of the intrinsic Delaunay triangulation of the star and of the
+polyhedron (see `intrinsic.ts` and `reconstruct.ts`), or `null` if the
+star cannot be triangulated (e.g., a degenerate star).
+
+With `--symmetry` each successful phase gets a property `symmetry` with the
+symmetry group and its elements (see `symmetry.ts`).
+
+With `--check` the transform script is only checked statically (see
+`validate.ts`) and the problems found are written as JSON to stdout
+(a failing setup is a problem without a location).
+The exit code is 1 if there are problems.
+
+With `--plan` a transform script for the setup is searched for (see
+`planner.ts`) and written to stdout.  The planner's report is written to
+stderr.  The exit code is 1 if no script was found.
+The target file (if given) lists the edges of the polyhedron to be folded,
+one edge per line, as two vertex names and optionally the edge length.
+
+With `--enumerate` the Thurston stars with the given number of edges
+(default 11) and bounds for the edge norms (default 7) and the area are
+written to stdout as JSON (see `enumerate.ts`).
+*/
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { Folding, runScript, Snapshot } from "./folding";
+import { SerializedState } from "./serialization";
+import { toGLTF, toOBJ, toSTL } from "./exporters";
+import { createNet } from "./net";
+import { IntrinsicEdge } from "./intrinsic";
+import { planFolding } from "./planner";
+import { enumerateStars } from "./enumerate";
+import { symmetryOf } from "./symmetry";
+import { SourceLocation } from "./errors";
+import { getLines } from "./utils";
+import { validateScript } from "./validate";
+
+type PhaseJSON = {
+  title: string,
+  log?: string,
+  error?: string,
+  location?: SourceLocation,
+  starEdges?: {delaunay: IntrinsicEdge[], polyhedron?: IntrinsicEdge[]} | null,
+  symmetry?: {group: string, elements: {description: string, cycles: string}[]},
+} & Snapshot;
+
+const {values: options, positionals} = parseArgs({
+  options: {
+    "no-log": {type: "boolean", default: false},
+    precision: {type: "string"},
+    "save-state": {type: "string"},
+    export: {type: "string"},
+    net: {type: "string"},
+    "star-edges": {type: "boolean", default: false},
+    symmetry: {type: "boolean", default: false},
+    check: {type: "boolean", default: false},
+    plan: {type: "boolean", default: false},
+    target: {type: "string"},
+    "max-depth": {type: "string"},
+    "max-states": {type: "string"},
+    enumerate: {type: "boolean", default: false},
+    edges: {type: "string"},
+    "max-norm": {type: "string"},
+    "max-area": {type: "string"},
+    limit: {type: "string"},
+    help: {type: "boolean", short: "h", default: false},
+  },
+  allowPositionals: true,
+});
+
+const usage =
+  "Usage: star-fold [--no-log] [--precision <digits>] [--save-state <file>] [--export <file>] [--net <file>] [--star-edges] [--symmetry] <setup-file> <transform-file>\n" +
+  "       star-fold --check <setup-file> <transform-file>\n" +
+  "       star-fold --plan [--target <file>] [--max-depth <n>] [--max-states <n>] <setup-file>\n" +
+  "       star-fold --enumerate [--edges <n>] [--max-norm <n>] [--max-area <n>] [--limit <n>]";
+
+if (options.help) {
+  console.log(usage);
+  process.exit(0);
+}
+if (positionals.length !== (options.enumerate ? 0 : options.plan ? 1 : 2)) {
+  console.error(usage);
+  process.exit(2);
+}
+
+type NumericOption = "max-depth" | "max-states" | "edges" | "max-norm" | "max-area" | "limit";
+const nonNegative = (name: NumericOption) => {
+  if (options[name] === undefined) return undefined;
+  const value = Number.parseInt(options[name]);
+  if (!(value >= 0)) {
+    console.error(`--${name} expects a non-negative number`);
+    process.exit(2);
+  }
+  return value;
+};
+
+if (options.enumerate) {
+  let stars: ReturnType<typeof enumerateStars>;
+  try {
+    stars = enumerateStars({
+      edges: nonNegative("edges"),
+      maxNorm: nonNegative("max-norm"),
+      maxArea: nonNegative("max-area"),
+      limit: nonNegative("limit"),
+    });
+  } catch (e) {
+    console.error(e.message);
+    process.exit(2);
+  }
+  process.stdout.write(JSON.stringify({
+    stars: stars.map(({area, setup}) => ({area, setup})),
+  }, null, 2) + "\n");
+  process.exit(0);
+}
+
+if (options.plan) {
+  const target = options.target === undefined ? undefined :
+    getLines(readFileSync(options.target, "utf8")).map(line => {
+      const [from, to, length] = line.split(/\s+/);
+      if (to === undefined) {
+        console.error(`--target: expected two vertex names in line "${line}"`);
+        process.exit(2);
+      }
+      return {from, to, ...length !== undefined && {length: Number(length)}};
+    });
+  const {script, report} = planFolding(readFileSync(positionals[0], "utf8"), {
+    target,
+    maxDepth: nonNegative("max-depth"),
+    maxStates: nonNegative("max-states"),
+  });
+  console.error(report.join("\n"));
+  if (script) process.stdout.write(script);
+  process.exit(script ? 0 : 1);
+}
+
+const precision =
+  options.precision === undefined ? undefined : Number.parseInt(options.precision);
+if (precision !== undefined && !(precision >= 0 && precision <= 20)) {
+  console.error(`--precision expects a number of digits (0 to 20)`);
+  process.exit(2);
+}
+const exporters: Record<string, (snapshot: Snapshot) => string | Uint8Array> = {
+  obj: toOBJ,
+  stl: snapshot => new Uint8Array(toSTL(snapshot)),
+  gltf: snapshot => JSON.stringify(toGLTF(snapshot)),
+};
+const exportFormat = options.export?.split(".").at(-1).toLowerCase();
+if (options.export !== undefined && !exporters[exportFormat]) {
+  console.error(`--export: unsupported file extension (use .obj, .stl, or .gltf)`);
+  process.exit(2);
+}
+
+const round = (x: number) =>
+  precision === undefined ? x : Number(x.toFixed(precision));
+
+const [setupFile, transformFile] = positionals;
+const setupDef = readFileSync(setupFile, "utf8");
+const transformDef = readFileSync(transformFile, "utf8");
+
+if (options.check) {
+  const problems = validateScript(setupDef, transformDef).map(({error, location, note}) => ({
+    error: `${error}`,
+    ...note ? {note} : {},
+    ...location ? {location} : {},
+  }));
+  process.stdout.write(JSON.stringify({problems}, null, 2) + "\n");
+  process.exit(problems.length > 0 ? 1 : 0);
+}
+if (options["star-edges"] && setupDef.trimStart().startsWith("{")) {
+  console.error(`--star-edges: not available for saved states`);
+  process.exit(2);
+}
+
+function symmetryJSON(snapshot: Snapshot) {
+  const {group, elements} = symmetryOf(snapshot);
+  return {group, elements: elements.map(({description, cycles}) => ({description, cycles}))};
+}
+
+function phaseToJSON(
+  folding: Folding, title: string, logText: string, error?: string, location?: SourceLocation,
+): PhaseJSON {
+  const snapshot = folding.snapshot();
+  return {
+    title,
+    ...options["no-log"] ? {} : {log: logText},
+    ...error ? {error} : {},
+    ...location ? {location} : {},
+    ...options["star-edges"] && title === "setup" && !error
+      ? {starEdges: folding.mesh.starEdges() ?? null} : {},
+    ...options.symmetry && !error ? {symmetry: symmetryJSON(snapshot)} : {},
+    ...snapshot,
+    vertices: snapshot.vertices.map(({name, position}) => ({
+      name,
+      position: position.map(round) as [number, number, number],
+    })),
+  };
+}
+
+const phases: PhaseJSON[] = [];
+let lastState: SerializedState | undefined;
+let lastSnapshot: Snapshot | undefined;
+runScript(setupDef, transformDef, (folding, title, logText, error, location) => {
+  phases.push(phaseToJSON(folding, title, logText, error, location));
+  if (!error && options["save-state"] !== undefined) lastState = folding.serialize();
+  if (!error && options.export !== undefined) lastSnapshot = folding.snapshot();
+});
+
+if (options["save-state"] !== undefined && lastState) {
+  writeFileSync(options["save-state"], JSON.stringify(lastState, null, 2) + "\n");
+}
+if (options.export !== undefined && !phases.at(-1)?.error) {
+  writeFileSync(options.export, exporters[exportFormat](lastSnapshot));
+}
+if (options.net !== undefined && !phases.at(-1)?.error) {
+  writeFileSync(options.net, createNet(setupDef, transformDef));
+}
+
+process.stdout.write(JSON.stringify({phases}, null, 2) + "\n");
+process.exitCode = phases.at(-1)?.error ? 1 : 0;
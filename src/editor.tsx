@@ -0,0 +1,237 @@
+import { ComponentChild, RefObject } from 'preact';
+import { useLayoutEffect, useRef, useState } from 'preact/hooks';
+import { cmdNames } from './folding';
+import { SourceLocation } from './errors';
+
+/*
+The editor for the transform text:  A text area with a backdrop showing
+the same text with syntax highlighting and with marked locations (e.g.,
+errors).  The text in the text area itself is transparent.
+
+Vertex names are completed as you type (or with Ctrl+Space).  The names
+offered depend on the line (see `vertexNames` below).  Use the arrow keys
+to choose a name and Enter or Tab to insert it.  Escape closes the list.
+*/
+
+/** Lines whose arguments are not vertex names */
+const noVertexArgs = ["let", "macro", "contract", "fold"];
+
+/** Syntax highlighting classes for the tokens of a line (with offsets) */
+function tokenize(line: string): {start: number, end: number, className: string}[] {
+  const trimmed = line.trimStart();
+  const indent = line.length - trimmed.length;
+  if (trimmed.startsWith("//")) return [{start: indent, end: line.length, className: "comment"}];
+  const tokens: {start: number, end: number, className: string}[] = [];
+  const [word] = trimmed.split(/\s/);
+  if ((cmdNames as string[]).includes(word)) {
+    tokens.push({start: indent, end: indent + word.length, className: "command"});
+  } else if (["macro", "for", "end", "let"].includes(word)) {
+    tokens.push({start: indent, end: indent + word.length, className: "keyword"});
+    const match = word === "for" && /(?<=\s)in(?=\s)/.exec(line);
+    if (match) tokens.push({start: match.index, end: match.index + 2, className: "keyword"});
+  }
+  // Numbers, but not digits in vertex names like `e.1` (and not the command `bend2`):
+  for (const match of line.matchAll(/(?<![\w.])(\d+\.?\d*|\.\d+)(e[+-]?\d+)?(deg\b|°)?(?![\w.])/gi)) {
+    tokens.push({start: match.index, end: match.index + match[0].length, className: "number"});
+  }
+  return tokens;
+}
+
+/** The start and end offsets of a location in `text` */
+export function locationRange(text: string, {line, column, token}: SourceLocation) {
+  const start = text.split("\n").slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0) + column - 1;
+  return [start, start + token.length];
+}
+
+/**
+ * The text with syntax highlighting and the given ranges marked,
+ * to be shown behind the (transparent) text area.
+ * An empty element referenced by `anchorRef` is placed at offset `anchor`
+ * (to position the list of completions).
+ */
+function highlightText(
+  text: string, ranges: number[][], anchor?: number, anchorRef?: RefObject<HTMLSpanElement>,
+) {
+  const tokens: {start: number, end: number, className: string}[] = [];
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    for (const {start, end, className} of tokenize(line)) {
+      tokens.push({start: offset + start, end: offset + end, className});
+    }
+    offset += line.length + 1;
+  }
+  const cuts = [...new Set([
+    0, text.length, ...anchor === undefined ? [] : [anchor],
+    ...tokens.flatMap(({start, end}) => [start, end]),
+    ...ranges.flat(),
+  ])].filter(cut => cut >= 0 && cut <= text.length).sort((a, b) => a - b);
+  const parts: ComponentChild[] = [];
+  cuts.forEach((start, i) => {
+    if (start === anchor) parts.push(<span ref={anchorRef}>{"\u200b"}</span>);
+    const end = cuts[i + 1];
+    if (end === undefined) return;
+    const segment = text.slice(start, end);
+    const className = tokens.find(t => t.start <= start && end <= t.end)?.className;
+    const span = className ? <span class={className}>{segment}</span> : segment;
+    parts.push(ranges.some(([s, e]) => s <= start && end <= e) ? <mark>{span}</mark> : span);
+  });
+  return <>{parts}{"\n"}</>;
+}
+
+type Completion = {
+  /** The offset of the word being completed */
+  start: number,
+  items: string[],
+  selected: number,
+};
+
+export function TransformEditor({
+  textareaRef, defaultText, marks, vertexNames, onInput,
+}: {
+  textareaRef: RefObject<HTMLTextAreaElement>,
+  defaultText: string,
+  /** Locations to be marked as long as the text is `marks.text` */
+  marks?: {text: string, locations: SourceLocation[]},
+  /**
+   * Vertex names to be offered for completion in the given (1-based)
+   * line, most relevant first
+   */
+  vertexNames: (line: number) => string[],
+  onInput?: () => void,
+}) {
+  const backdropElem = useRef<HTMLDivElement>();
+  const anchorElem = useRef<HTMLSpanElement>();
+  const editorElem = useRef<HTMLDivElement>();
+  // The text as shown in the backdrop.  The text area is not controlled,
+  // so the text is re-read after each rendering (see below).
+  const [text, setText] = useState(defaultText);
+  const [completion, setCompletion] = useState<Completion>();
+  const [popupPos, setPopupPos] = useState<{left: number, top: number}>();
+
+  // The text may also be modified programmatically (or by a new default):
+  useLayoutEffect(() => {
+    const {value} = textareaRef.current;
+    if (value !== text) {
+      setText(value);
+      setCompletion(undefined);
+    }
+  });
+
+  useLayoutEffect(() => {
+    if (!completion || !anchorElem.current) {
+      setPopupPos(undefined);
+      return;
+    }
+    const anchor = anchorElem.current.getBoundingClientRect();
+    const editor = editorElem.current.getBoundingClientRect();
+    setPopupPos({left: anchor.left - editor.left, top: anchor.bottom - editor.top});
+  }, [completion, text]);
+
+  useLayoutEffect(() => {
+    editorElem.current.querySelector(".completions .selected")?.scrollIntoView({block: "nearest"});
+  }, [completion, popupPos]);
+
+  function syncBackdrop() {
+    backdropElem.current.scrollTop = textareaRef.current.scrollTop;
+    backdropElem.current.scrollLeft = textareaRef.current.scrollLeft;
+  }
+
+  /**
+   * Offer the vertex names starting with the word before the cursor
+   * (also for an empty word if `force` is set).
+   */
+  function complete(force = false) {
+    const {value, selectionStart, selectionEnd} = textareaRef.current;
+    if (selectionStart !== selectionEnd) return setCompletion(undefined);
+    const before = value.slice(0, selectionStart);
+    const lineText = before.slice(before.lastIndexOf("\n") + 1);
+    // (Loop values may be tuples like `(a,b)`.)
+    const prefix = /[^\s(),]*$/.exec(lineText)[0];
+    const [word] = lineText.trimStart().split(/\s/);
+    if (
+      (prefix === "" && !force) ||
+      /^\s*\S*$/.test(lineText) || // the first word of the line
+      word.startsWith("//") || noVertexArgs.includes(word)
+    ) return setCompletion(undefined);
+    const line = before.split("\n").length;
+    const items = vertexNames(line).filter(name => name.startsWith(prefix) && name !== prefix);
+    setCompletion(items.length === 0 ? undefined : {
+      start: selectionStart - prefix.length, items, selected: 0,
+    });
+  }
+
+  function accept(name: string) {
+    const textarea = textareaRef.current;
+    textarea.setRangeText(name, completion.start, textarea.selectionStart, "end");
+    textarea.focus();
+    setCompletion(undefined);
+    setText(textarea.value);
+    onInput?.();
+  }
+
+  function onKeyDown(e: KeyboardEvent) {
+    if (e.key === " " && e.ctrlKey) {
+      e.preventDefault();
+      complete(true);
+      return;
+    }
+    if (!completion) return;
+    const {items, selected} = completion;
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setCompletion({...completion, selected: (selected + step + items.length) % items.length});
+        break;
+      }
+      case "Enter":
+      case "Tab":
+        accept(items[selected]);
+        break;
+      case "Escape":
+        setCompletion(undefined);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+
+  const ranges = marks?.text === text
+    ? marks.locations.map(location => locationRange(text, location))
+    : [];
+
+  return (
+    <div ref={editorElem} className="editor">
+      <div ref={backdropElem} className="backdrop" aria-hidden="true">
+        {highlightText(text, ranges, completion?.start, anchorElem)}
+      </div>
+      <textarea ref={textareaRef} rows={20} cols={35} wrap="off" spellcheck={false}
+        onInput={() => {
+          setText(textareaRef.current.value);
+          complete();
+          onInput?.();
+        }}
+        onKeyDown={onKeyDown}
+        onClick={() => setCompletion(undefined)}
+        onBlur={() => setCompletion(undefined)}
+        onScroll={syncBackdrop}
+      >
+        {defaultText}
+      </textarea>
+      {completion && popupPos && (
+        <ul className="completions" style={popupPos}>
+          {completion.items.map((name, i) => (
+            <li
+              className={i === completion.selected ? "selected" : undefined}
+              // Keep the focus in the text area:
+              onMouseDown={e => { e.preventDefault(); accept(name); }}
+            >
+              {name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
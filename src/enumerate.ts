@@ -0,0 +1,240 @@
+/*
+Enumerate Thurston stars:  Closed polygons on the triangular lattice with
+an equilateral notch on each edge.  Folding such a star gives a polyhedron
+with a vertex of curvature 60° for each notch and another vertex where all
+the tips meet.  (For 11 edges this is another vertex of curvature 60°,
+for 12 edges it is a flat point.)
+
+Lattice points are Eisenstein integers `a + bω`, represented as `[a, b]`.
+All geometric tests use exact integer arithmetic.
+
+A sequence of edges gives a valid star if
+- the angle at each tip (the polygon angle minus the two notch angles of
+  60°) is positive,
+- the polygon is counterclockwise with total turn 360°, and
+- the star outline (the polygon with the notches) has no self-intersections.
+
+Since there are infinitely many stars, the edge lengths must be bounded.
+The area can be bounded as well.  (But this does not speed up the search.
+The number of stars grows quickly with the bound for the edge lengths.)
+
+Stars are enumerated up to rotations and reflections of the lattice and the
+choice of the first edge.  Of each class only the star with the
+lexicographically smallest edge sequence is emitted.
+*/
+
+import { fail } from './utils';
+
+export type Eisenstein = [number, number];
+
+export type EnumerateOptions = {
+  /** The number of edges (and notches) */
+  edges?: number,
+  /** Upper bound for the norm `a² - ab + b²` (the squared length) of each edge */
+  maxNorm?: number,
+  /** Upper bound for the star area (in units of the unit triangle) */
+  maxArea?: number,
+  /** The maximum number of stars to return */
+  limit?: number,
+};
+
+export type EnumeratedStar = {
+  edges: Eisenstein[],
+  /** The star area in units of the unit triangle */
+  area: number,
+  /** A setup text (using Eisenstein integers) */
+  setup: string,
+};
+
+const norm = ([a, b]: Eisenstein) => a * a - a * b + b * b;
+
+/** Proportional to the sine of the angle from `u` to `v` */
+const cross = ([a, b]: Eisenstein, [c, d]: Eisenstein) => a * d - b * c;
+
+const plus = ([a, b]: Eisenstein, [c, d]: Eisenstein): Eisenstein => [a + c, b + d];
+const minus = ([a, b]: Eisenstein, [c, d]: Eisenstein): Eisenstein => [a - c, b - d];
+
+/** Rotation by 60° (multiplication by `1 + ω`) */
+const rot60 = ([a, b]: Eisenstein): Eisenstein => [a - b, a];
+
+/** Reflection (complex conjugation) */
+const conjugate = ([a, b]: Eisenstein): Eisenstein => [a - b, -b];
+
+const argument = ([a, b]: Eisenstein) => Math.atan2(b * Math.sqrt(3) / 2, a - b / 2);
+
+const deg60 = Math.PI / 3;
+const epsilon = 1e-9;
+
+/** Is the direction of `z` in the sector [0°, 60°)? */
+const inFirstSector = (z: Eisenstein) => {
+  const phi = argument(z);
+  return phi > -epsilon && phi < deg60 - epsilon;
+};
+
+/**
+ * The angle at the tip between two subsequent edges
+ * (the polygon angle minus the two notch angles of 60°)
+ */
+function tipAngle(u: Eisenstein, v: Eisenstein) {
+  let turn = argument(v) - argument(u);
+  if (turn <= -Math.PI) turn += 2 * Math.PI;
+  if (turn > Math.PI) turn -= 2 * Math.PI;
+  return deg60 - turn;
+}
+
+export function formatEisenstein([a, b]: Eisenstein) {
+  const bPart = b === 0 ? "" : b === 1 ? "ω" : b === -1 ? "-ω" : `${b}ω`;
+  return a === 0 ? bPart || "0" : `${a}${b > 0 ? "+" : ""}${bPart}`;
+}
+
+/** The star outline: tips and notch apexes alternating */
+function outline(edges: Eisenstein[]) {
+  const points: Eisenstein[] = [];
+  let tip: Eisenstein = [0, 0];
+  for (const edge of edges) {
+    points.push(tip, plus(tip, rot60(edge)));
+    tip = plus(tip, edge);
+  }
+  return points;
+}
+
+/** Do the closed segments `pq` and `rs` have a common point? */
+function intersect(p: Eisenstein, q: Eisenstein, r: Eisenstein, s: Eisenstein) {
+  const side = (a: Eisenstein, b: Eisenstein, c: Eisenstein) => Math.sign(cross(minus(b, a), minus(c, a)));
+  const onSegment = (a: Eisenstein, b: Eisenstein, c: Eisenstein) =>
+    Math.min(a[0], b[0]) <= c[0] && c[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= c[1] && c[1] <= Math.max(a[1], b[1]);
+  const d1 = side(r, s, p), d2 = side(r, s, q), d3 = side(p, q, r), d4 = side(p, q, s);
+  if (d1 * d2 < 0 && d3 * d4 < 0) return true;
+  return (
+    d1 === 0 && onSegment(r, s, p) ||
+    d2 === 0 && onSegment(r, s, q) ||
+    d3 === 0 && onSegment(p, q, r) ||
+    d4 === 0 && onSegment(p, q, s)
+  );
+}
+
+function isSimple(points: Eisenstein[]) {
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // adjacent
+      if (intersect(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])) return false;
+    }
+  }
+  return true;
+}
+
+/** The area of a counterclockwise polygon in units of the unit triangle */
+const area = (points: Eisenstein[]) =>
+  points.reduce((sum, p, i) => sum + cross(p, points[(i + 1) % points.length]), 0);
+
+/** Compare edge sequences lexicographically */
+function compare(edges1: Eisenstein[], edges2: Eisenstein[]) {
+  for (let i = 0; i < edges1.length; i++) {
+    const diff = edges1[i][0] - edges2[i][0] || edges1[i][1] - edges2[i][1];
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Is `edges` the smallest of the sequences describing the same star
+ * (with the first edge in the sector [0°, 60°))?
+ */
+function isCanonical(edges: Eisenstein[]) {
+  const n = edges.length;
+  const reflected = edges.map(e => conjugate(e).map(x => -x) as Eisenstein).reverse();
+  for (const sequence of [edges, reflected]) {
+    for (let shift = 0; shift < n; shift++) {
+      let other = [...sequence.slice(shift), ...sequence.slice(0, shift)];
+      for (let k = 0; k < 6 && !inFirstSector(other[0]); k++) other = other.map(rot60);
+      if (compare(other, edges) < 0) return false;
+    }
+  }
+  return true;
+}
+
+export function starSetup(edges: Eisenstein[]) {
+  return [
+    "eisenstein",
+    ...edges.map((edge, i) => `${String.fromCharCode(97 + i)} ${formatEisenstein(edge)}`),
+  ].join("\n") + "\n";
+}
+
+/**
+ * The stars (see above), at most `limit` of them.
+ *
+ * The search keeps track of states (the number of edges, the current
+ * position, the last edge, and the sum of the tip angles so far) from which
+ * the polygon cannot be closed, so that they are not explored again.
+ */
+export function enumerateStars({
+  edges: n = 11,
+  maxNorm = 7,
+  maxArea = Infinity,
+  limit = Infinity,
+}: EnumerateOptions = {}): EnumeratedStar[] {
+  if (!(n >= 7 && n <= 12)) fail(
+    `stars with ${n} edges have non-positive tip angles or a negative curvature at the tips`
+  );
+  if (!(maxNorm >= 1)) fail(`invalid maximum norm: ${maxNorm}`);
+  const r = Math.ceil(Math.sqrt(maxNorm)) * 2;
+  const vectors: Eisenstein[] = [];
+  for (let a = -r; a <= r; a++) {
+    for (let b = -r; b <= r; b++) {
+      if (norm([a, b]) > 0 && norm([a, b]) <= maxNorm) vectors.push([a, b]);
+    }
+  }
+  const tipAngles = vectors.map(u => vectors.map(v => tipAngle(u, v)));
+  const maxLength = Math.sqrt(maxNorm);
+  /** The sum of the tip angles for a total turn of 360° */
+  const tipAngleSum = (n - 6) * deg60;
+
+  const result: EnumeratedStar[] = [];
+  const indices: number[] = [];
+  let dead: Set<string>;
+
+  /** Returns `true` if the polygon can be closed from this state */
+  function recur(pos: Eisenstein, angleSum: number): boolean {
+    const k = indices.length;
+    if (k === n) {
+      if (pos[0] !== 0 || pos[1] !== 0) return false;
+      const closingAngle = tipAngles[indices[n - 1]][indices[0]];
+      if (closingAngle < epsilon || Math.abs(angleSum + closingAngle - tipAngleSum) > epsilon) return false;
+      const edges = indices.map(i => vectors[i]);
+      if (isCanonical(edges)) {
+        const points = outline(edges);
+        const starArea = area(points);
+        if (starArea <= maxArea && isSimple(points)) {
+          result.push({edges, area: starArea, setup: starSetup(edges)});
+        }
+      }
+      return true;
+    }
+    // The remaining edges must lead back to the start:
+    if (Math.sqrt(norm(pos)) > (n - k) * maxLength + epsilon) return false;
+    const key = `${k} ${pos} ${indices[k - 1]} ${Math.round(angleSum * 1e6)}`;
+    if (dead.has(key)) return false;
+    let closable = false;
+    for (let i = 0; i < vectors.length && result.length < limit; i++) {
+      // The tip angles must be positive, also for the remaining tips:
+      const angle = tipAngles[indices[k - 1]][i];
+      if (angle < epsilon || angleSum + angle > tipAngleSum - epsilon) continue;
+      indices.push(i);
+      if (recur(plus(pos, vectors[i]), angleSum + angle)) closable = true;
+      indices.pop();
+    }
+    if (!closable) dead.add(key);
+    return closable;
+  }
+
+  vectors.forEach((v, i) => {
+    if (!inFirstSector(v) || result.length >= limit) return;
+    dead = new Set();
+    indices.push(i);
+    recur(v, 0);
+    indices.pop();
+  });
+  return result;
+}
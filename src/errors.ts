@@ -0,0 +1,142 @@
+/*
+Errors of the transform language.
+
+A `ScriptError` knows the offending token of the failing command line
+(e.g., a vertex name) if there is one, and for parse errors also its
+offset in the line.  `locateError(...)` turns this into a location in the
+transform text, which is reported along with the error and highlighted in
+the web UI.
+
+The subclasses distinguish the typical reasons why a command cannot be
+applied.  Other errors (including internal ones) are plain `Error`s.
+Their location is the entire failing line.
+
+The class names are set explicitly (rather than taken from the
+constructor) as they should survive minification.
+*/
+
+/** A position in the transform text */
+export type SourceLocation = {
+  /** 1-based line number */
+  line: number,
+  /** 1-based column */
+  column: number,
+  /** The offending text (a token or the entire command) */
+  token: string,
+};
+
+export class ScriptError extends Error {
+  name = "ScriptError";
+  constructor(
+    message: string,
+    /** The offending token (if known) */
+    readonly token?: string,
+    /** The 0-based offset of the token in the (trimmed) command line */
+    readonly offset?: number,
+    /** The 1-based source line (if already known, as for expansion errors) */
+    readonly line?: number,
+  ) {
+    super(message);
+  }
+}
+
+/** Invalid syntax in a command, an expression, a macro, or a loop */
+export class ParseError extends ScriptError {
+  name = "ParseError";
+}
+
+/** No vertex or more than one vertex with the given name */
+export class UnknownVertexError extends ScriptError {
+  name = "UnknownVertexError";
+  constructor(readonly vertexName: string, found: number) {
+    super(
+      found === 0
+      ? `unknown vertex "${vertexName}"`
+      : `found ${found} vertices with name "${vertexName}"`,
+      vertexName,
+    );
+  }
+}
+
+export class NonBoundaryVertexError extends ScriptError {
+  name = "NonBoundaryVertexError";
+  constructor(readonly vertexName: string) {
+    super(`vertex "${vertexName}" is not adjacent to the boundary`, vertexName);
+  }
+}
+
+/** The two vertices are not adjacent to exactly one common face. */
+export class NoCommonFaceError extends ScriptError {
+  name = "NoCommonFaceError";
+  constructor(readonly vertexNames: [string, string], found: number) {
+    super(
+      found === 0
+      ? `vertices "${vertexNames[0]}" and "${vertexNames[1]}" have no common face`
+      : `vertices "${vertexNames[0]}" and "${vertexNames[1]}" have ${found} common faces`,
+      vertexNames[1],
+    );
+  }
+}
+
+/** The boundary edges at the given vertex are not peers. */
+export class NonPeerError extends ScriptError {
+  name = "NonPeerError";
+  constructor(readonly vertexName: string, details: string) {
+    super(`the boundary edges at vertex "${vertexName}" are not peers: ${details}`, vertexName);
+  }
+}
+
+/** Faces that should be merged after gluing are not coplanar. */
+export class NonCoplanarError extends ScriptError {
+  name = "NonCoplanarError";
+  constructor(readonly vertexName: string, details: string) {
+    super(`faces at vertex "${vertexName}" are not coplanar: ${details}`, vertexName);
+  }
+}
+
+/**
+ * The spheres around the given vertices do not intersect,
+ * so the star tips cannot be brought together.
+ */
+export class UnsolvableSphereError extends ScriptError {
+  name = "UnsolvableSphereError";
+  constructor(readonly vertexNames: string[], details: string) {
+    super(`spheres around ${vertexNames.join(", ")} do not intersect (${details})`);
+  }
+}
+
+/** Find `token` as a whitespace-delimited word in `text`. */
+function wordIndex(text: string, token: string) {
+  const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<!\\S)${escaped}(?!\\S)`).exec(text)?.index;
+}
+
+/**
+ * The location of `error` in the transform text `source`.
+ *
+ * `command` and `line` describe the failing command line as generated from
+ * the source (see `expandScript(...)`).  If the command was generated by a
+ * macro, a loop, or a `let` variable, the offending token is searched in the
+ * source line.  If it does not occur there, the location is the entire line.
+ */
+export function locateError(
+  error: unknown, source: string, command?: string, line?: number,
+): SourceLocation | undefined {
+  const scriptError = error instanceof ScriptError ? error : undefined;
+  line = scriptError?.line ?? line;
+  if (line === undefined) return undefined;
+  const text = source.split(/\n|\r\n?/)[line - 1] ?? "";
+  const indent = text.length - text.trimStart().length;
+  const trimmed = text.trim();
+  const token = scriptError?.token;
+  let index: number | undefined;
+  if (token !== undefined) {
+    const offset = scriptError.offset;
+    index = offset !== undefined && (command === undefined || command === trimmed)
+      ? offset
+      : wordIndex(trimmed, token);
+  }
+  return index === undefined
+    ? {line, column: indent + 1, token: trimmed}
+    : {line, column: indent + index + 1, token};
+}
@@ -82,28 +82,29 @@ reattach g f
 // (Use a slightly smaller bending
 // angle such as 0.68 to see a
 // "sliced icosahedron".)
-bend .729 k.1 c
-bend .729 c e.0
-bend .729 b c
-bend .729 c d
-
-bend .729 g.1 i.0.0
-bend .729 g.1 h
-bend .729 h j.0
-bend .729 h a
-bend .729 f h
-
-bend .729 i.1 k.0
-bend .729 j.1 k.0
-bend .729 j.1 b
-bend .729 a b
-bend .729 e.1 g.0
-bend .729 e.1 f
-bend .729 d f
-
-bend .729 b d
-bend .729 f a
-bend .729 a d
+let angle = 180deg - dihedral_icosahedron
+bend angle k.1 c
+bend angle c e.0
+bend angle b c
+bend angle c d
+
+bend angle g.1 i.0.0
+bend angle g.1 h
+bend angle h j.0
+bend angle h a
+bend angle f h
+
+bend angle i.1 k.0
+bend angle j.1 k.0
+bend angle j.1 b
+bend angle a b
+bend angle e.1 g.0
+bend angle e.1 f
+bend angle d f
+
+bend angle b d
+bend angle f a
+bend angle a d
 `,
   },
   icosahedron2: {
@@ -155,6 +156,34 @@ bend .5 k f
 bend .5 k h
 
 contract 100 l
+`,
+  },
+  octahedron: {
+    info: `Notches with 120° angles (height 1/3);
+see also https://mathstodon.xyz/@GerardWestendorp/113379133059049977`,
+    setup: `
+a 11 height 1/3
+b 9 height 1/3
+c 7 height 1/3
+d 5 height 1/3
+e 2 2 2 height 1/3
+`,
+    transform: `
+// Move the triangle at the
+// tip e^a to the other side
+// of the notch e:
+reattach a e
+
+// The dihedral angle in an
+// octahedron is 109.5°.
+// Thus the bending angle is
+// 180°-109.5° = 70.5° = 1.23 rad
+let angle = 180deg - dihedral_octahedron
+bend angle a.1 b c d a.0
+bend angle b e c
+bend angle e d
+
+contract 100 f
 `,
   },
   empty: {
@@ -162,13 +191,6 @@ contract 100 l
     setup: "a",
     transform: "",
   },
-
-/*
-TODO:
-- an octahedron as in
-  https://mathstodon.xyz/@GerardWestendorp/113379133059049977
-  (but that requires configurable heights of the green triangles)
-*/
 };
 
 export default examples;
@@ -0,0 +1,191 @@
+import { XYZ } from './geom-utils';
+import { Snapshot } from './folding';
+import triangulate from './triangulate';
+import { cross, dot, norm, sub, Vec3 } from './solver';
+
+/*
+Export a folding state (as returned by `folding.snapshot()`) to file formats
+understood by CAD tools and slicers:
+
+- `toOBJ(...)`: Wavefront OBJ text with one named group per face.
+  Faces are written as polygons (not triangulated).
+  Each vertex also gets a group named like the vertex, containing just a
+  point element, so that importers can find vertices by name.
+- `toSTL(...)`: binary STL (triangulated).
+- `toGLTF(...)`: glTF 2.0 JSON with an embedded buffer,
+  each face having its own color.
+
+For closed meshes the faces are oriented so that their normals point outward.
+*/
+
+type Face = {name: string, points: Vec3[], indices: number[]};
+
+/** Is every edge adjacent to two faces? */
+function isClosed({edges, faces}: Snapshot) {
+  const count = new Map<string, number>();
+  for (const {vertices} of faces) {
+    vertices.forEach((v, i) => {
+      const key = [v, vertices[(i + 1) % vertices.length]].sort().join(" ");
+      count.set(key, (count.get(key) ?? 0) + 1);
+    });
+  }
+  return edges.every(e => count.get([...e].sort().join(" ")) === 2);
+}
+
+/** Faces with consistent (and for closed meshes outward) orientation */
+function orientedFaces(snapshot: Snapshot): Face[] {
+  const {vertices, faces} = snapshot;
+  const index = new Map(vertices.map(({name}, i) => [name, i]));
+  const result = faces.map(({name, vertices: names}) => {
+    const indices = names.map(n => index.get(n));
+    return {name, indices, points: indices.map(i => vertices[i].position)};
+  });
+  if (isClosed(snapshot)) {
+    // The loops of our mesh are consistently oriented, but we do not know
+    // if this is inside-out.  So we check the sign of the enclosed volume.
+    const volume = result.reduce((sum, {points}) =>
+      sum + triangles(points).reduce((s, [p, q, r]) => s + dot(p, cross(q, r)), 0),
+      0,
+    );
+    if (volume < 0) {
+      for (const face of result) {
+        face.points.reverse();
+        face.indices.reverse();
+      }
+    }
+  }
+  return result;
+}
+
+function triangles(points: Vec3[]): Vec3[][] {
+  if (points.length < 3) return [];
+  return triangulate(points.map(p => XYZ.vec(p))).map(triangle =>
+    triangle.map(mv => ["x", "y", "z"].map(c => mv.value(c)) as Vec3)
+  );
+}
+
+function normal([p, q, r]: Vec3[]): Vec3 {
+  const n = cross(sub(q, p), sub(r, p));
+  const len = norm(n);
+  return len < 1e-12 ? [0, 0, 0] : n.map(x => x / len) as Vec3;
+}
+
+/** A color for the `i`-th face (hues spread by the golden angle) */
+function faceColor(i: number): Vec3 {
+  const h = (i * 137.508) % 360 / 60, s = .6, l = .6;
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(h % 2 - 1));
+  const m = l - c / 2;
+  const [r, g, b] =
+    h < 1 ? [c, x, 0] :
+    h < 2 ? [x, c, 0] :
+    h < 3 ? [0, c, x] :
+    h < 4 ? [0, x, c] :
+    h < 5 ? [x, 0, c] :
+            [c, 0, x];
+  return [r + m, g + m, b + m];
+}
+
+export function toOBJ(snapshot: Snapshot): string {
+  const lines = [
+    "# exported by star-folding",
+    ...snapshot.vertices.map(({name, position: [x, y, z]}) => `v ${x} ${y} ${z} # ${name}`),
+  ];
+  for (const {name, indices} of orientedFaces(snapshot)) {
+    lines.push(`g ${name.replace(/\s+/g, "_")}`);
+    lines.push(`f ${indices.map(i => i + 1).join(" ")}`);
+  }
+  snapshot.vertices.forEach(({name}, i) => {
+    lines.push(`g ${name}`);
+    lines.push(`p ${i + 1}`);
+  });
+  return lines.join("\n") + "\n";
+}
+
+export function toSTL(snapshot: Snapshot): ArrayBuffer {
+  const tris = orientedFaces(snapshot).flatMap(({points}) => triangles(points));
+  const buffer = new ArrayBuffer(84 + 50 * tris.length);
+  const view = new DataView(buffer);
+  const header = "binary STL exported by star-folding";
+  for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i));
+  view.setUint32(80, tris.length, true);
+  tris.forEach((tri, i) => {
+    let offset = 84 + 50 * i;
+    for (const p of [normal(tri), ...tri]) {
+      for (const x of p) {
+        view.setFloat32(offset, x, true);
+        offset += 4;
+      }
+    }
+    view.setUint16(offset, 0, true); // attribute byte count
+  });
+  return buffer;
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Create a glTF 2.0 asset (to be written with `JSON.stringify(...)`
+ * to a `.gltf` file).
+ *
+ * Vertices are not shared between faces so that each face can have its
+ * own color and a flat normal.
+ */
+export function toGLTF(snapshot: Snapshot) {
+  const positions: number[] = [], normals: number[] = [], colors: number[] = [];
+  orientedFaces(snapshot).forEach(({points}, i) => {
+    const color = faceColor(i);
+    for (const tri of triangles(points)) {
+      const n = normal(tri);
+      for (const p of tri) {
+        positions.push(...p);
+        normals.push(...n);
+        colors.push(...color);
+      }
+    }
+  });
+  const nVertices = positions.length / 3;
+  const data = new Float32Array([...positions, ...normals, ...colors]);
+  const byteLength = nVertices * 12;
+
+  const min = [0, 1, 2].map(c => Math.min(...positions.filter((_, i) => i % 3 === c)));
+  const max = [0, 1, 2].map(c => Math.max(...positions.filter((_, i) => i % 3 === c)));
+  const accessor = (bufferView: number, extra = {}) => ({
+    bufferView, componentType: 5126 /* FLOAT */, count: nVertices, type: "VEC3", ...extra,
+  });
+
+  return {
+    asset: {version: "2.0", generator: "star-folding"},
+    scene: 0,
+    scenes: [{nodes: [0]}],
+    nodes: [{mesh: 0, name: "polyhedron"}],
+    meshes: [{
+      name: "polyhedron",
+      primitives: [{
+        attributes: {POSITION: 0, NORMAL: 1, COLOR_0: 2},
+        material: 0,
+        mode: 4, // TRIANGLES
+      }],
+    }],
+    materials: [{
+      name: "faces",
+      pbrMetallicRoughness: {baseColorFactor: [1, 1, 1, 1], metallicFactor: 0, roughnessFactor: 1},
+      doubleSided: !isClosed(snapshot),
+    }],
+    buffers: [{
+      byteLength: data.byteLength,
+      uri: "data:application/octet-stream;base64," +
+        toBase64(new Uint8Array(data.buffer)),
+    }],
+    bufferViews: [0, 1, 2].map(i => ({
+      buffer: 0, byteOffset: i * byteLength, byteLength, target: 34962 /* ARRAY_BUFFER */,
+    })),
+    accessors: [accessor(0, nVertices > 0 ? {min, max} : {}), accessor(1), accessor(2)],
+  };
+}
@@ -0,0 +1,171 @@
+import { ParseError } from './errors';
+
+/*
+Numeric expressions in the transform language (for bending angles and
+`let` definitions), evaluated without `eval`:
+
+- numbers like `2`, `.729`, or `1e-3`,
+- degree literals like `41.8deg` (or `41.8°`), converted to radians,
+- the constants listed below, such as `pi` and `dihedral_icosahedron`,
+- the functions `sqrt`, `abs`, `sin`, `cos`, `tan`, `asin`, `acos`, `atan`,
+  and `atan2`,
+- the operators `+`, `-`, `*`, `/`, and `^` (exponentiation, binding
+  stronger than the unary minus: `-2^2` is -4), and parentheses.
+
+For example, `pi - acos(-sqrt(5)/3)` (or `180deg - dihedral_icosahedron`)
+is the bending angle between neighboring faces of an icosahedron.
+*/
+
+/** Named constants (angles in radians) */
+export const constants: Record<string, number> = {
+  pi: Math.PI,
+  tau: 2 * Math.PI,
+  deg: Math.PI / 180,
+  dihedral_tetrahedron: Math.acos(1 / 3),
+  dihedral_cube: Math.PI / 2,
+  dihedral_octahedron: Math.acos(-1 / 3),
+  dihedral_dodecahedron: Math.acos(-1 / Math.sqrt(5)),
+  dihedral_icosahedron: Math.acos(-Math.sqrt(5) / 3),
+};
+
+export const functions: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+};
+
+/**
+ * Parse and evaluate the longest prefix of `text` that is an expression.
+ * Returns the value and the remaining text (with leading whitespace removed).
+ *
+ * The expression ends where no operator follows a complete operand.
+ * So in `bend pi/4 a b` the angle expression is `pi/4`.
+ *
+ * Besides the constants the expression may use the given `variables`.
+ */
+export function parseExpression(
+  text: string, variables?: ReadonlyMap<string, number>,
+): {value: number, rest: string} {
+  let pos = 0;
+  const skipSpace = () => { while (/\s/.test(text[pos] ?? "")) pos++; };
+  const context = () => `"${text.slice(0, pos)}<-HERE->${text.slice(pos)}"`;
+  /** Fail, blaming the word starting at `start` (or the entire expression at its end) */
+  function parseError(message: string, start = pos): never {
+    let token = /^\S*/.exec(text.slice(start))[0];
+    if (token === "") {
+      start = text.length - text.trimStart().length;
+      token = text.trim();
+    }
+    throw new ParseError(message, token, start);
+  }
+
+  function sum(): number {
+    let value = product();
+    for (;;) {
+      skipSpace();
+      const op = text[pos];
+      if (op !== "+" && op !== "-") return value;
+      pos++;
+      const operand = product();
+      value = op === "+" ? value + operand : value - operand;
+    }
+  }
+
+  function product(): number {
+    let value = unary();
+    for (;;) {
+      skipSpace();
+      const op = text[pos];
+      if (op !== "*" && op !== "/") return value;
+      pos++;
+      const operand = unary();
+      value = op === "*" ? value * operand : value / operand;
+    }
+  }
+
+  function unary(): number {
+    skipSpace();
+    const op = text[pos];
+    if (op === "-" || op === "+") {
+      pos++;
+      const value = unary();
+      return op === "-" ? -value : value;
+    }
+    return power();
+  }
+
+  function power(): number {
+    const base = primary();
+    skipSpace();
+    if (text[pos] !== "^") return base;
+    pos++;
+    return base ** unary();
+  }
+
+  function primary(): number {
+    skipSpace();
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(text.slice(pos));
+    if (number) {
+      pos += number[0].length;
+      const unit = /^(deg\b|°)/.exec(text.slice(pos));
+      if (unit) {
+        pos += unit[0].length;
+        return Number(number[0]) * constants.deg;
+      }
+      if (/\w/.test(text[pos] ?? "")) parseError(`unexpected character after number in expression ${context()}`);
+      return Number(number[0]);
+    }
+    if (text[pos] === "(") {
+      pos++;
+      const value = sum();
+      skipSpace();
+      if (text[pos] !== ")") parseError(`")" expected in expression ${context()}`);
+      pos++;
+      return value;
+    }
+    const name = /^[A-Za-z_]\w*/.exec(text.slice(pos))?.[0];
+    if (name === undefined) parseError(`number, name, or "(" expected in expression ${context()}`);
+    const start = pos;
+    pos += name.length;
+    if (variables?.has(name)) return variables.get(name);
+    if (Object.hasOwn(constants, name)) return constants[name];
+    if (!Object.hasOwn(functions, name)) parseError(`unknown name "${name}" in expression`, start);
+    const fn = functions[name];
+    skipSpace();
+    if (text[pos] !== "(") parseError(`"(" expected after function "${name}" in expression ${context()}`);
+    pos++;
+    const args = [sum()];
+    skipSpace();
+    while (text[pos] === ",") {
+      pos++;
+      args.push(sum());
+      skipSpace();
+    }
+    if (text[pos] !== ")") parseError(`")" expected in expression ${context()}`);
+    pos++;
+    if (args.length !== fn.length) parseError(
+      `function "${name}" expects ${fn.length} args but got ${args.length}`, start
+    );
+    return fn(...args);
+  }
+
+  const value = sum();
+  if (!Number.isFinite(value)) parseError(`expression "${text.slice(0, pos).trim()}" is not a finite number`, text.length);
+  skipSpace();
+  return {value, rest: text.slice(pos)};
+}
+
+/** Evaluate an expression (see above) making up all of `text`. */
+export function evaluate(text: string, variables?: ReadonlyMap<string, number>): number {
+  const {value, rest} = parseExpression(text, variables);
+  if (rest !== "") throw new ParseError(
+    `unexpected "${rest}" after expression "${text}"`, rest, text.length - rest.length
+  );
+  return value;
+}
@@ -0,0 +1,378 @@
+import { fail, log, setLogger } from './utils';
+import { MyMesh, MyMeshState } from './MyMesh';
+import { loadState, SerializedState, serializeState } from './serialization';
+import { describeIdentification, identifyMesh } from './identify';
+import { describeOrigin, expandScript, ScriptLine } from './macros';
+import { parseExpression } from './expressions';
+import { locateError, ParseError, SourceLocation } from './errors';
+
+/*
+A UI-free API for folding a star:
+
+  const folding = createFolding(setupText);
+  folding.apply(parseCommand("reattach j i"));
+  folding.apply({type: "bend", angle: .5, vertices: ["e.1", "f"]});
+  const {vertices, edges, faces, peers} = folding.snapshot();
+
+`apply(...)` throws an `Error` if the command fails.  The mesh is left
+unchanged in this case.  `undo()` goes back to the state before the most
+recent successful command, `redo()` re-applies an undone command.
+
+When a command closes the mesh, the resulting polyhedron is identified
+combinatorially (see `identify.ts`) and the result is logged.
+
+`folding.serialize()` returns the current state in a JSON-compatible format
+(see `serialization.ts`).  Passing such a state (as JSON text) instead of a
+star definition to `createFolding(...)` resumes folding from that state.
+*/
+
+export type BendCommand = {type: "bend", angle: number, vertices: string[]};
+export type Bend2Command = {type: "bend2", choice: "+" | "-", vertices: [string, string, string]};
+export type ReattachCommand = {type: "reattach", vertices: [string, string]};
+export type ContractCommand = {type: "contract", maxIterations: number, tipName: string};
+export type FoldAutoCommand = {type: "fold", tipName: string};
+
+export type Command =
+  | BendCommand
+  | Bend2Command
+  | ReattachCommand
+  | ContractCommand
+  | FoldAutoCommand;
+
+export const cmdNames: Command["type"][] = ["bend", "bend2", "reattach", "contract", "fold"];
+
+/**
+ * Parse a single line of the transform language.
+ *
+ * Fails with a `ParseError` (see `errors.ts`) naming the offending token.
+ */
+export function parseCommand(line: string): Command {
+  line = line.trim();
+  const tokens = [...line.matchAll(/\S+/g)];
+  const [cmd, ...args] = tokens.map(([token]) => token);
+  /** Fail, blaming the `i`-th token (the command name being token 0) */
+  function parseError(message: string, i?: number): never {
+    throw new ParseError(message, tokens[i]?.[0], tokens[i]?.index);
+  }
+  switch (cmd) {
+    case "bend": {
+      if (args.length < 3) parseError("bend expects 3 or more args");
+      // The angle may be an expression containing spaces:
+      let angle: number, rest: string;
+      try {
+        ({value: angle, rest} = parseExpression(line.slice(cmd.length)));
+      } catch (e) {
+        throw new ParseError(
+          `first arg of bend should be a number or an expression (an angle): ${e.message}`,
+          e.token, e.offset === undefined ? undefined : cmd.length + e.offset,
+        );
+      }
+      const vertices = rest.split(/\s+/).filter(name => name !== "");
+      if (vertices.length < 2) parseError("bend expects an angle and 2 or more vertices");
+      return {type: "bend", angle, vertices};
+    }
+    case "bend2": {
+      if (args.length !== 4) parseError("bend2 expects 4 args");
+      const [choice, p, q, r] = args;
+      if (choice !== "+" && choice !== "-") parseError(
+        "first arg of bend2 should be '+' or '-'.", 1
+      );
+      return {type: "bend2", choice, vertices: [p, q, r]};
+    }
+    case "reattach": {
+      if (args.length !== 2) parseError(`reattach expects 2 args`);
+      const [p, q] = args;
+      return {type: "reattach", vertices: [p, q]};
+    }
+    case "contract": {
+      if (args.length !== 2) parseError(`"contract" expects 2 argument`);
+      const maxIterations = Number.parseInt(args[0]);
+      if (Number.isNaN(maxIterations) || maxIterations < 1) parseError(
+        `The argument of "contract" should be the number of optimization steps.`, 1
+      );
+      return {type: "contract", maxIterations, tipName: args[1]};
+    }
+    case "fold": {
+      if (args.length !== 2 || args[0] !== "auto") parseError(`"fold" expects "auto" and a tip name`);
+      return {type: "fold", tipName: args[1]};
+    }
+    default:
+      parseError(`Unknown command "${cmd}"`, 0);
+  }
+}
+
+/** A plain-data (JSON-compatible) view of a folding state */
+export type Snapshot = {
+  vertices: {name: string, position: [number, number, number]}[],
+  /** Pairs of vertex names */
+  edges: [string, string][],
+  /** Faces with their vertex names in loop order (without the boundary) */
+  faces: {name: string, vertices: string[]}[],
+  /** Pairs of peer boundary edges, each given as [from, to] vertex names */
+  peers: [[string, string], [string, string]][],
+};
+
+export class Folding {
+  readonly mesh: MyMesh;
+  undoStack: {command: Command, state: MyMeshState}[] = [];
+  redoStack: Command[] = [];
+
+  constructor(
+    readonly log: (...args: any[]) => unknown = () => {},
+  ) {
+    this.mesh = new MyMesh(log, fail);
+  }
+
+  /**
+   * Create the initial star.  Only to be called once.
+   *
+   * If `def` is a JSON object, it is taken as a saved state to start from.
+   */
+  setup(def: string) {
+    const {mesh} = this;
+    setLogger(this.log);
+    if (def.trimStart().startsWith("{")) {
+      let data: SerializedState;
+      try {
+        data = JSON.parse(def);
+      } catch (e) {
+        fail(`cannot parse saved state: ${e.message}`);
+      }
+      loadState(mesh, data);
+    } else {
+      mesh.setup(def);
+    }
+    mesh.logMesh();
+    mesh.checkWithData();
+  }
+
+  apply(command: Command) {
+    const {mesh} = this;
+    setLogger(this.log);
+    const state = mesh.saveState();
+    try {
+      this.execute(command);
+    } catch (e) {
+      // Discard any partial modifications:
+      mesh.restoreState(state);
+      throw e;
+    }
+    this.undoStack.push({command, state});
+    this.redoStack = [];
+  }
+
+  /** Undo the most recent successful command and return it. */
+  undo(): Command | undefined {
+    const entry = this.undoStack.pop();
+    if (!entry) return undefined;
+    this.mesh.restoreState(entry.state);
+    this.redoStack.push(entry.command);
+    return entry.command;
+  }
+
+  /** Re-apply the most recently undone command and return it. */
+  redo(): Command | undefined {
+    const command = this.redoStack.pop();
+    if (!command) return undefined;
+    const {redoStack} = this;
+    this.apply(command); // (this clears the redo stack)
+    this.redoStack = redoStack;
+    return command;
+  }
+
+  saveState(): MyMeshState {
+    return this.mesh.saveState();
+  }
+
+  /**
+   * Re-establish a state returned by `saveState()`.
+   * The undo/redo history is cleared.
+   */
+  restoreState(state: MyMeshState) {
+    this.mesh.restoreState(state);
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private execute(command: Command) {
+    const {mesh} = this;
+    switch (command.type) {
+      case "bend": mesh.bend(command.angle, command.vertices); break;
+      case "bend2": mesh.bend2(command.choice, command.vertices); break;
+      case "reattach": mesh.reattach(...command.vertices); break;
+      case "contract": mesh.contract(command.maxIterations, command.tipName); break;
+      case "fold": mesh.foldAuto(command.tipName); break;
+    }
+    mesh.logMesh();
+    mesh.checkWithData();
+    if (!mesh.boundary) log(describeIdentification(identifyMesh(mesh)));
+  }
+
+  serialize(): SerializedState {
+    return serializeState(this.mesh);
+  }
+
+  snapshot(): Snapshot {
+    const {vertices, loops, peers, boundary, positions} = this.mesh;
+    return {
+      vertices: vertices.values().map(v => {
+        const p = positions.get(v);
+        return {
+          name: v.name,
+          position: (
+            p ? ["x", "y", "z"].map(c => p.value(c)) : [NaN, NaN, NaN]
+          ) as [number, number, number],
+        };
+      }).toArray(),
+      edges: vertices.values().flatMap(v =>
+        v.neighbors().filter(w => v.id <= w.id)
+        .map(w => [v.name, w.name] as [string, string])
+      ).toArray(),
+      faces: loops.values().filter(l => l !== boundary).map(l => ({
+        name: l.name,
+        vertices: l.vertices().map(v => v.name).toArray(),
+      })).toArray(),
+      peers:
+        peers.entries().filter(([he0, he1]) => he0.id <= he1.id)
+        .map(([he0, he1]) => [
+          [he0.from.name, he0.to.name],
+          [he1.from.name, he1.to.name],
+        ] as [[string, string], [string, string]])
+        .toArray(),
+    };
+  }
+}
+
+export function createFolding(
+  setupDef: string,
+  log?: (...args: any[]) => unknown,
+) {
+  const folding = new Folding(log);
+  folding.setup(setupDef);
+  return folding;
+}
+
+/**
+ * Runs scripts, re-using the results of the previous run as far as possible:
+ * If the setup is unchanged, execution resumes after the longest common
+ * prefix of the old and new transform lines (restoring the saved state).
+ *
+ * Macros and loops are expanded first (see `macros.ts`).  If this fails,
+ * the setup is followed by a single failed phase "macro expansion".
+ *
+ * `makePhase` is called after the setup and after each command
+ * (even if it failed).  Execution stops at the first failure.
+ * For a failed command it also gets the location of the error in the
+ * transform text (see `errors.ts`).
+ * Its results are collected and returned by `run(...)`.
+ */
+export class ScriptRunner<P> {
+  folding: Folding;
+  setupDef: string;
+  /** The transform lines after expanding macros and loops */
+  lines: string[] = [];
+  /** The phase titles for `lines` (telling where generated lines come from) */
+  titles: string[] = [];
+  /** The source lines of the top-level statements producing `lines` */
+  statements: number[] = [];
+  phases: P[] = [];
+  /** `states[i]` is the state after phase `i` (only for successful phases) */
+  states: MyMeshState[] = [];
+  logText = "";
+
+  constructor(
+    readonly makePhase: (
+      folding: Folding, logTitle: string, logText: string,
+      error?: string, location?: SourceLocation,
+    ) => P,
+  ) {}
+
+  run(setupDef: string, transformDef: string): P[] {
+    let expanded: ScriptLine[] = [], expansionError: unknown;
+    try {
+      expanded = expandScript(transformDef);
+    } catch (e) {
+      expansionError = e;
+    }
+    const lines = expanded.map(({command}) => command);
+    const titles = expanded.map(scriptLine =>
+      scriptLine.via.length === 0 ? scriptLine.command :
+      `${scriptLine.command} (${describeOrigin(scriptLine)})`
+    );
+
+    // Number of phases (including the setup) to be re-used:
+    let nReused = 0;
+    if (this.folding && setupDef === this.setupDef && this.states.length > 0) {
+      nReused = 1;
+      while (
+        nReused < this.states.length &&
+        nReused <= lines.length &&
+        titles[nReused - 1] === this.titles[nReused - 1]
+      ) nReused++;
+    }
+    this.setupDef = setupDef;
+    this.lines = lines;
+    this.titles = titles;
+    this.statements = expanded.map(({statement}) => statement);
+    this.phases = this.phases.slice(0, nReused);
+    this.states = this.states.slice(0, nReused);
+
+    const log = (...args: any[]) => { this.logText += args.join(" ") + "\n"; };
+    const emit = (logTitle: string, error?: string, location?: SourceLocation) => {
+      this.phases.push(this.makePhase(this.folding, logTitle, this.logText, error, location));
+      if (!error) this.states.push(this.folding.saveState());
+    };
+
+    if (nReused === 0) {
+      this.folding = new Folding(log);
+      this.logText = "";
+      try {
+        this.folding.setup(setupDef);
+      } catch (e) {
+        log("CAUGHT EXCEPTION:", e);
+        emit("setup", e.toString());
+        return this.phases;
+      }
+      emit("setup");
+      nReused = 1;
+    } else {
+      this.folding.restoreState(this.states[nReused - 1]);
+    }
+
+    if (expansionError) {
+      this.logText = "";
+      emit("macro expansion", `${expansionError}`, locateError(expansionError, transformDef));
+      return this.phases;
+    }
+    for (let i = nReused - 1; i < lines.length; i++) {
+      const command = lines[i], title = titles[i];
+      this.logText = "";
+      try {
+        this.folding.apply(parseCommand(command));
+      } catch (e) {
+        log("CAUGHT EXCEPTION:", e, "\nstack:\n" + e.stack);
+        emit(title, e.toString(), locateError(e, transformDef, command, expanded[i].line));
+        return this.phases;
+      }
+      emit(title);
+    }
+    return this.phases;
+  }
+}
+
+/**
+ * Run the setup and the transform commands on a new `Folding`.
+ *
+ * `emitPhase` is called after the setup and after each command
+ * (even if it failed).  Execution stops at the first failure.
+ */
+export function runScript(
+  setupDef: string,
+  transformDef: string,
+  emitPhase: (
+    folding: Folding, logTitle: string, logText: string,
+    error?: string, location?: SourceLocation,
+  ) => void,
+) {
+  new ScriptRunner(emitPhase).run(setupDef, transformDef);
+}
@@ -0,0 +1,462 @@
+import { fail } from './utils';
+import { Mesh } from './mesh';
+
+/*
+Combinatorial identification of closed polyhedra.
+
+A polyhedron is given by its faces, each a list of vertex indices in
+counterclockwise order (as seen from outside).  So each edge occurs in two
+faces with opposite directions.
+
+The canonical code of a polyhedron is the lexicographically smallest of the
+codes obtained by a breadth-first traversal starting at some directed edge
+and going around the vertices in either of the two orientations.
+(A traversal numbers the vertices in the order of their discovery and lists
+for each vertex the numbers of its neighbors.)  Two polyhedra have the same
+code if and only if they are combinatorially equivalent (allowing mirror
+images).  The traversals giving the smallest code correspond to the
+automorphisms of the polyhedron.
+
+The code is looked up in a library of known polyhedra (Platonic and
+Archimedean solids, prisms, antiprisms, and a selection of Johnson solids
+including the convex deltahedra), which is built with Conway operators.
+The symmetry groups in the library are the ones of the regular (or
+uniform) realizations.  A folded polyhedron with the same combinatorics
+need not have this symmetry.
+*/
+
+export type Faces = number[][];
+
+export type Identification = {
+  /** The name of the matching polyhedron from the library (if any) */
+  name?: string,
+  /** Its symmetry group (in Schoenflies notation) */
+  group?: string,
+  vertices: number,
+  edges: number,
+  faces: number,
+  /** Vertex degrees, like "3^8 4^6" */
+  degrees: string,
+  /** Face sizes, like "3^8 4^6" */
+  faceSizes: string,
+  /** The number of combinatorial automorphisms */
+  automorphisms: number,
+  /** The number of orientation-preserving automorphisms */
+  rotations: number,
+  code: string,
+};
+
+const key = (u: number, v: number) => `${u},${v}`;
+
+/**
+ * For each directed edge `u -> v` the vertices before `u` and after `v`
+ * in the face containing it
+ */
+function faceNeighbors(faces: Faces) {
+  const prev = new Map<string, number>();
+  const next = new Map<string, number>();
+  for (const face of faces) {
+    const n = face.length;
+    face.forEach((u, i) => {
+      const k = key(u, face[(i + 1) % n]);
+      if (prev.has(k)) fail(`edge ${k} occurs twice with the same direction`);
+      prev.set(k, face[(i + n - 1) % n]);
+      next.set(k, face[(i + 2) % n]);
+    });
+  }
+  return {prev, next};
+}
+
+/** The neighbors of each vertex */
+function neighborLists(faces: Faces) {
+  const neighbors = new Map<number, number[]>();
+  for (const face of faces) {
+    face.forEach((u, i) => {
+      const v = face[(i + 1) % face.length];
+      if (!neighbors.has(u)) neighbors.set(u, []);
+      neighbors.get(u).push(v);
+    });
+  }
+  return neighbors;
+}
+
+/** Summarize the multiset `values` like "3^8 4^6" */
+const histogram = (values: number[]) =>
+  Object.entries(Object.groupBy(values, x => x))
+  .sort(([a], [b]) => Number(a) - Number(b))
+  .map(([value, list]) => `${value}^${list.length}`)
+  .join(" ");
+
+export function canonicalForm(faces: Faces) {
+  const {prev, next} = faceNeighbors(faces);
+  const neighbors = neighborLists(faces);
+  for (const [u, vs] of neighbors) {
+    for (const v of vs) {
+      if (!prev.has(key(v, u))) fail(`edge ${key(u, v)} has no opposite edge`);
+    }
+  }
+  // The next neighbor of `u` after `v` in the two orientations:
+  const rotate = [
+    (u: number, v: number) => prev.get(key(u, v)),
+    (u: number, v: number) => next.get(key(v, u)),
+  ];
+
+  /** The code for a traversal, or `undefined` if it exceeds `best` */
+  function traverse(u0: number, v0: number, orientation: number, best?: number[]) {
+    const rot = rotate[orientation];
+    const number = new Map([[u0, 1]]);
+    const first = new Map([[u0, v0]]);
+    const queue = [u0];
+    const code: number[] = [];
+    let smaller = false;
+    const emit = (x: number) => {
+      if (best && !smaller) {
+        const diff = x - best[code.length];
+        if (diff > 0) return false;
+        if (diff < 0) smaller = true;
+      }
+      code.push(x);
+      return true;
+    };
+    for (let i = 0; i < queue.length; i++) {
+      const u = queue[i];
+      let v = first.get(u);
+      do {
+        if (!number.has(v)) {
+          number.set(v, number.size + 1);
+          first.set(v, u);
+          queue.push(v);
+        }
+        if (!emit(number.get(v))) return undefined;
+        v = rot(u, v);
+      } while (v !== first.get(u));
+      if (!emit(0)) return undefined;
+    }
+    if (queue.length !== neighbors.size) fail(`the polyhedron is not connected`);
+    return code;
+  }
+
+  let best: number[];
+  const counts = [0, 0];
+  for (const [u, vs] of neighbors) {
+    for (const v of vs) {
+      for (const orientation of [0, 1]) {
+        const code = traverse(u, v, orientation, best);
+        if (!code) continue;
+        if (best && code.every((x, i) => x === best[i])) {
+          counts[orientation]++;
+        } else {
+          best = code;
+          counts.fill(0);
+          counts[orientation] = 1;
+        }
+      }
+    }
+  }
+
+  const nEdges = neighbors.values().reduce((sum, vs) => sum + vs.length, 0) / 2;
+  if (neighbors.size - nEdges + faces.length !== 2) fail(
+    `not a sphere: ${neighbors.size} vertices, ${nEdges} edges, ${faces.length} faces`
+  );
+  return {
+    vertices: neighbors.size,
+    edges: nEdges,
+    faces: faces.length,
+    degrees: histogram(neighbors.values().map(vs => vs.length).toArray()),
+    faceSizes: histogram(faces.map(face => face.length)),
+    automorphisms: counts[0] + counts[1],
+    rotations: Math.max(...counts),
+    code: best.join(" "),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Building polyhedra
+
+export function prism(n: number): Faces {
+  const ring = Array.from({length: n}, (_, i) => i);
+  return [
+    ring,
+    ring.map(i => n + i).reverse(),
+    ...ring.map(i => [(i + 1) % n, i, n + i, n + (i + 1) % n]),
+  ];
+}
+
+export function antiprism(n: number): Faces {
+  const ring = Array.from({length: n}, (_, i) => i);
+  return [
+    ring,
+    ring.map(i => n + i).reverse(),
+    ...ring.flatMap(i => [
+      [(i + 1) % n, i, n + i],
+      [(i + 1) % n, n + i, n + (i + 1) % n],
+    ]),
+  ];
+}
+
+export function pyramid(n: number): Faces {
+  const ring = Array.from({length: n}, (_, i) => i);
+  return [
+    [...ring].reverse(),
+    ...ring.map(i => [i, (i + 1) % n, n]),
+  ];
+}
+
+const vertexCount = (faces: Faces) => new Set(faces.flat()).size;
+
+/** Put a pyramid on each of the faces with the given indices. */
+export function augment(faces: Faces, indices: number[]): Faces {
+  let apex = vertexCount(faces);
+  return faces.flatMap((face, i) => {
+    if (!indices.includes(i)) return [face];
+    const c = apex++;
+    return face.map((u, k) => [u, face[(k + 1) % face.length], c]);
+  });
+}
+
+/** The index of the face containing each directed edge */
+function faceIndices(faces: Faces) {
+  const faceOf = new Map<string, number>();
+  faces.forEach((face, f) => face.forEach((u, k) => {
+    faceOf.set(key(u, face[(k + 1) % face.length]), f);
+  }));
+  return faceOf;
+}
+
+/**
+ * The faces around each vertex, in counterclockwise order,
+ * each given as a face index and the position of the vertex in the face
+ */
+function vertexCycles(faces: Faces) {
+  const faceOf = new Map<string, [number, number]>();
+  faces.forEach((face, f) => face.forEach((u, k) => {
+    faceOf.set(key(u, face[(k + 1) % face.length]), [f, k]);
+  }));
+  const cycles = new Map<number, [number, number][]>();
+  faces.forEach((face, f0) => face.forEach((u, k0) => {
+    if (cycles.has(u)) return;
+    const cycle: [number, number][] = [];
+    let [f, k] = [f0, k0];
+    do {
+      cycle.push([f, k]);
+      const face = faces[f];
+      // Continue with the face containing the edge from `u` to its
+      // predecessor in `face`:
+      [f, k] = faceOf.get(key(u, face[(k + face.length - 1) % face.length]));
+    } while (f !== f0);
+    cycles.set(u, cycle);
+  }));
+  return cycles;
+}
+
+/** Renumber the vertices (given as arbitrary keys) consecutively. */
+function renumber(faces: string[][]): Faces {
+  const numbers = new Map<string, number>();
+  return faces.map(face => face.map(k => {
+    if (!numbers.has(k)) numbers.set(k, numbers.size);
+    return numbers.get(k);
+  }));
+}
+
+/** Conway's dual operator: faces become vertices and vice versa */
+export const dual = (faces: Faces): Faces =>
+  vertexCycles(faces).values().map(cycle => cycle.map(([f]) => f)).toArray();
+
+/** Conway's ambo operator: the edge midpoints become the vertices */
+export function ambo(faces: Faces): Faces {
+  const edge = (u: number, v: number) => u < v ? key(u, v) : key(v, u);
+  const out = (f: number, k: number) =>
+    edge(faces[f][k], faces[f][(k + 1) % faces[f].length]);
+  return renumber([
+    ...faces.map((face, f) => face.map((_, k) => out(f, k))),
+    ...vertexCycles(faces).values().map(cycle => cycle.map(([f, k]) => out(f, k))),
+  ]);
+}
+
+/** Conway's truncate operator: each vertex is replaced by a face */
+export function truncate(faces: Faces): Faces {
+  // Vertex `key(u, v)` is the one near `u` on the edge from `u` to `v`.
+  const out = (f: number, k: number) =>
+    key(faces[f][k], faces[f][(k + 1) % faces[f].length]);
+  return renumber([
+    ...faces.map(face => face.flatMap((u, k) => {
+      const v = face[(k + 1) % face.length];
+      return [key(u, v), key(v, u)];
+    })),
+    ...vertexCycles(faces).values().map(cycle => cycle.map(([f, k]) => out(f, k))),
+  ]);
+}
+
+/**
+ * Conway's expand operator (or, with `snub`, the snub operator):
+ * The faces are moved apart and the gaps are filled with a face for each
+ * vertex and a quadrilateral (or two triangles) for each edge.
+ */
+export function expand(faces: Faces, snub = false): Faces {
+  // Vertex `key(f, u)` is the one of face `f` near `u`.
+  const result: string[][] = faces.map((face, f) => face.map(u => key(f, u)));
+  for (const [u, cycle] of vertexCycles(faces)) {
+    result.push(cycle.map(([f]) => key(f, u)));
+  }
+  const faceOf = faceIndices(faces);
+  faces.forEach((face, f) => face.forEach((u, k) => {
+    const v = face[(k + 1) % face.length];
+    if (u > v) return; // each edge only once
+    const g = faceOf.get(key(v, u));
+    const quad = [key(f, v), key(f, u), key(g, u), key(g, v)];
+    result.push(...snub ? [quad.slice(0, 3), [quad[0], ...quad.slice(2)]] : [quad]);
+  }));
+  return renumber(result);
+}
+
+/** Indices of faces by their distance from face `f` (via common edges) */
+function faceDistances(faces: Faces, f: number) {
+  const faceOf = faceIndices(faces);
+  const distance = new Map([[f, 0]]);
+  const queue = [f];
+  for (let i = 0; i < queue.length; i++) {
+    const face = faces[queue[i]];
+    face.forEach((u, k) => {
+      const g = faceOf.get(key(face[(k + 1) % face.length], u));
+      if (distance.has(g)) return;
+      distance.set(g, distance.get(queue[i]) + 1);
+      queue.push(g);
+    });
+  }
+  return distance;
+}
+
+/** A face at the given distance from face `f` */
+const faceAt = (faces: Faces, f: number, d: number) =>
+  faceDistances(faces, f).entries().find(([, dist]) => dist === d)[0];
+
+// -----------------------------------------------------------------------------
+// The library
+
+type LibraryEntry = {name: string, group: string, faces: Faces};
+
+function libraryEntries(): LibraryEntry[] {
+  const tetrahedron = pyramid(3);
+  const cube = prism(4);
+  const octahedron = dual(cube);
+  const icosahedron = augment(antiprism(5), [0, 1]);
+  const dodecahedron = dual(icosahedron);
+  const squares = (faces: Faces) =>
+    faces.keys().filter(i => faces[i].length === 4).toArray();
+  const triPrismSquares = squares(prism(3));
+  const hexPrismSquares = squares(prism(6));
+  const dodecahedronPair = (d: number) => [0, faceAt(dodecahedron, 0, d)];
+  // Three pairwise non-adjacent faces of the dodecahedron:
+  const dodecahedronTriple = (() => {
+    const d0 = faceDistances(dodecahedron, 0);
+    const f1 = d0.entries().find(([, d]) => d === 2)[0];
+    const d1 = faceDistances(dodecahedron, f1);
+    const f2 = d0.keys().find(f => d0.get(f) === 2 && d1.get(f) === 2);
+    return [0, f1, f2];
+  })();
+  const names = ["", "", "", "triangular", "square", "pentagonal", "hexagonal",
+    "heptagonal", "octagonal", "enneagonal", "decagonal", "hendecagonal", "dodecagonal"];
+
+  return [
+    {name: "tetrahedron", group: "Td", faces: tetrahedron},
+    {name: "cube", group: "Oh", faces: cube},
+    {name: "octahedron", group: "Oh", faces: octahedron},
+    {name: "dodecahedron", group: "Ih", faces: dodecahedron},
+    {name: "icosahedron", group: "Ih", faces: icosahedron},
+
+    {name: "truncated tetrahedron", group: "Td", faces: truncate(tetrahedron)},
+    {name: "cuboctahedron", group: "Oh", faces: ambo(cube)},
+    {name: "truncated cube", group: "Oh", faces: truncate(cube)},
+    {name: "truncated octahedron", group: "Oh", faces: truncate(octahedron)},
+    {name: "rhombicuboctahedron", group: "Oh", faces: expand(cube)},
+    {name: "truncated cuboctahedron", group: "Oh", faces: truncate(ambo(cube))},
+    {name: "snub cube", group: "O", faces: expand(cube, true)},
+    {name: "icosidodecahedron", group: "Ih", faces: ambo(dodecahedron)},
+    {name: "truncated dodecahedron", group: "Ih", faces: truncate(dodecahedron)},
+    {name: "truncated icosahedron", group: "Ih", faces: truncate(icosahedron)},
+    {name: "rhombicosidodecahedron", group: "Ih", faces: expand(dodecahedron)},
+    {name: "truncated icosidodecahedron", group: "Ih", faces: truncate(ambo(dodecahedron))},
+    {name: "snub dodecahedron", group: "I", faces: expand(dodecahedron, true)},
+
+    ...names.keys().filter(n => n >= 3).flatMap(n => [
+      ...n === 4 ? [] : [{name: `${names[n]} prism`, group: `D${n}h`, faces: prism(n)}],
+      ...n === 3 ? [] : [{name: `${names[n]} antiprism`, group: `D${n}d`, faces: antiprism(n)}],
+    ]),
+
+    {name: "square pyramid (J1)", group: "C4v", faces: pyramid(4)},
+    {name: "pentagonal pyramid (J2)", group: "C5v", faces: pyramid(5)},
+    {name: "elongated triangular pyramid (J7)", group: "C3v", faces: augment(prism(3), [0])},
+    {name: "elongated square pyramid (J8)", group: "C4v", faces: augment(prism(4), [0])},
+    {name: "elongated pentagonal pyramid (J9)", group: "C5v", faces: augment(prism(5), [0])},
+    {name: "gyroelongated square pyramid (J10)", group: "C4v", faces: augment(antiprism(4), [0])},
+    {name: "gyroelongated pentagonal pyramid (J11)", group: "C5v", faces: augment(antiprism(5), [0])},
+    {name: "triangular bipyramid (J12)", group: "D3h", faces: dual(prism(3))},
+    {name: "pentagonal bipyramid (J13)", group: "D5h", faces: dual(prism(5))},
+    {name: "elongated triangular bipyramid (J14)", group: "D3h", faces: augment(prism(3), [0, 1])},
+    {name: "elongated square bipyramid (J15)", group: "D4h", faces: augment(prism(4), [0, 1])},
+    {name: "elongated pentagonal bipyramid (J16)", group: "D5h", faces: augment(prism(5), [0, 1])},
+    {name: "gyroelongated square bipyramid (J17)", group: "D4d", faces: augment(antiprism(4), [0, 1])},
+    {name: "augmented triangular prism (J49)", group: "C2v", faces: augment(prism(3), triPrismSquares.slice(0, 1))},
+    {name: "biaugmented triangular prism (J50)", group: "C2v", faces: augment(prism(3), triPrismSquares.slice(0, 2))},
+    {name: "triaugmented triangular prism (J51)", group: "D3h", faces: augment(prism(3), triPrismSquares)},
+    {name: "augmented pentagonal prism (J52)", group: "C2v", faces: augment(prism(5), [2])},
+    {name: "biaugmented pentagonal prism (J53)", group: "C2v", faces: augment(prism(5), [2, 4])},
+    {name: "augmented hexagonal prism (J54)", group: "C2v", faces: augment(prism(6), hexPrismSquares.slice(0, 1))},
+    {name: "parabiaugmented hexagonal prism (J55)", group: "D2h", faces: augment(prism(6), [hexPrismSquares[0], hexPrismSquares[3]])},
+    {name: "metabiaugmented hexagonal prism (J56)", group: "C2v", faces: augment(prism(6), [hexPrismSquares[0], hexPrismSquares[2]])},
+    {name: "triaugmented hexagonal prism (J57)", group: "D3h", faces: augment(prism(6), [0, 2, 4].map(i => hexPrismSquares[i]))},
+    {name: "augmented dodecahedron (J58)", group: "C5v", faces: augment(dodecahedron, [0])},
+    {name: "parabiaugmented dodecahedron (J59)", group: "D5d", faces: augment(dodecahedron, dodecahedronPair(3))},
+    {name: "metabiaugmented dodecahedron (J60)", group: "C2v", faces: augment(dodecahedron, dodecahedronPair(2))},
+    {name: "triaugmented dodecahedron (J61)", group: "C3v", faces: augment(dodecahedron, dodecahedronTriple)},
+    {name: "snub disphenoid (J84)", group: "D2d", faces: [
+      // A square antiprism with each square split into two triangles:
+      [0, 1, 2], [0, 2, 3], [7, 6, 4], [6, 5, 4],
+      ...antiprism(4).slice(2),
+    ]},
+  ];
+}
+
+let library: Map<string, LibraryEntry>;
+
+/** The known polyhedra by their canonical codes */
+export function knownPolyhedra() {
+  if (!library) {
+    library = new Map();
+    for (const entry of libraryEntries()) {
+      const {code} = canonicalForm(entry.faces);
+      if (library.has(code)) fail(
+        `${entry.name} is combinatorially equivalent to ${library.get(code).name}`
+      );
+      library.set(code, entry);
+    }
+  }
+  return library;
+}
+
+export function identifyPolyhedron(faces: Faces): Identification {
+  const form = canonicalForm(faces);
+  const entry = knownPolyhedra().get(form.code);
+  return {...entry && {name: entry.name, group: entry.group}, ...form};
+}
+
+/** Identify a closed mesh.  (The faces are the loops of the mesh.) */
+export function identifyMesh(mesh: Mesh): Identification {
+  const index = new Map(mesh.vertices.values().map((v, i) => [v, i]));
+  return identifyPolyhedron(
+    mesh.loops.values().map(l => l.vertices().map(v => index.get(v)).toArray()).toArray()
+  );
+}
+
+export function describeIdentification(
+  {name, group, vertices, edges, faces, degrees, faceSizes, automorphisms, rotations}: Identification,
+) {
+  return [
+    name
+    ? `combinatorially equivalent to the ${name} (symmetry group ${group} if regular)`
+    : "not a known polyhedron",
+    `${vertices} vertices, ${edges} edges, ${faces} faces`,
+    `vertex degrees ${degrees}, face sizes ${faceSizes}`,
+    `combinatorial automorphism group of order ${automorphisms} (${rotations} orientation-preserving)`,
+  ].join("\n");
+}
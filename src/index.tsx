@@ -5,29 +5,71 @@ import { Vector3 as V3 } from '@babylonjs/core';
 import * as G from "@babylonjs/gui";
 
 import './style.css';
-import { assert, choose, count, fail, findUnique, getLines, log, setLogger } from './utils';
-import { closeTo0, distance, XYZ, intersect3Spheres, MV, projectPointToLine, rotXY60, TAU, interpolate } from './geom-utils';
-import { findHE, HalfEdge, Loop, Mesh, Vertex } from './mesh';
+import { MV } from './geom-utils';
+import { Vertex } from './mesh';
 import examples from './examples';
 import triangulate from './triangulate';
+import { r3 } from './MyMesh';
+import { Folding, ScriptRunner, Snapshot } from './folding';
+import { lastStatement } from './macros';
+import { SerializedState } from './serialization';
+import { toGLTF, toOBJ, toSTL } from './exporters';
+import { createNet } from './net';
+import { IntrinsicEdge } from './intrinsic';
+import { planFolding } from './planner';
+import { EnumeratedStar, enumerateStars } from './enumerate';
+import { describeSymmetry, Symmetry, symmetryOf } from './symmetry';
+import { SourceLocation } from './errors';
+import { Problem, validateScript } from './validate';
+import { locationRange, TransformEditor } from './editor';
 
 const v3 = (...args: number[]) => new V3(...args);
 const mvToV3 = (mv: MV) => v3(mv.value("x"), mv.value("y"), mv.value("z"));
 
+/** Commands that can be built by picking vertices in the 3D view */
+type PickMode = "off" | "bend" | "bend2" | "reattach";
+
+/** The vertices picked so far and the candidates for the next pick */
+type Picking = {
+  picked: string[],
+  candidates: string[],
+  onPick: (name: string) => void,
+};
+
 type PhaseData = {
   logTitle: string;
   logText: string;
   error?: string;
+  /** The location of the error in the transform text */
+  location?: SourceLocation;
 
   /** Contains (x,y,z) triplets of coordinates */
   vertices: V3[],
   vertexNames: string[],
+  /** The names of the boundary vertices (in loop order) */
+  boundaryNames: string[],
+  /**
+   * For each boundary vertex the boundary vertices sharing exactly one
+   * face with it (see `MyMesh.uniqueFaceNeighbors(...)`)
+   */
+  faceNeighbors: Record<string, string[]>,
   edges: [V3, V3][],
   triangles: V3[][],
   peers: [V3, V3][],
-}
 
-const cmdNames = ["bend", "bend2", "reattach", "contract"];
+  /**
+   * The edges of the intrinsic Delaunay triangulation and of the polyhedron;
+   * only for the unfolded star
+   */
+  starEdges?: {delaunay: IntrinsicEdge[], polyhedron?: IntrinsicEdge[]},
+  /** Grid symmetry of the unfolded star or point group of the vertices */
+  symmetry?: Symmetry,
+
+  /** Saved state (for download); only for successful phases */
+  state?: SerializedState,
+  /** For exports */
+  snapshot: Snapshot,
+}
 
 export function App() {
   const [example, setExample] = useState<string>("thurston");
@@ -39,94 +81,300 @@ export function App() {
   const [showFaces, setShowFaces] = useState(true);
   const [showPeers, setShowPeers] = useState(false);
   const [showGrid, setShowGrid] = useState(false);
+  const [showStarEdges, setShowStarEdges] = useState(false);
+  // Center all steps at the centroid of the setup (rather than each step
+  // at its own centroid):
+  const [fixedFrame, setFixedFrame] = useState(false);
+  const [stars, setStars] = useState<EnumeratedStar[]>([]);
+  const [pickMode, setPickMode] = useState<PickMode>("off");
+  const [picked, setPicked] = useState<string[]>([]);
+  const [bendAngle, setBendAngle] = useState(".5");
+  const [bend2Choice, setBend2Choice] = useState("+");
 
   const polygonDefElem = useRef<HTMLTextAreaElement>();
   const actionsDefElem = useRef<HTMLTextAreaElement>();
   const phaseSelectElem = useRef<HTMLSelectElement>();
+  const starEdgesElem = useRef<HTMLInputElement>();
+  const starNormElem = useRef<HTMLInputElement>();
+  const starAreaElem = useRef<HTMLInputElement>();
   const canvas = useRef<HTMLCanvasElement>();
+  // The 3D view, created once for the canvas:
+  const view = useRef<ReturnType<typeof createView>>();
+
+  // Re-used across runs so that only commands from the first changed line
+  // onward need to be re-executed:
+  const runner = useRef<ScriptRunner<PhaseData>>();
+  // Command lines removed by "undo", most recent last:
+  const [redoLines, setRedoLines] = useState<string[]>([]);
+  // The transform text of the most recent run and the locations of its
+  // error and of the problems found by the static check, to be highlighted
+  // until the text is modified:
+  const [highlight, setHighlight] = useState<{text: string, locations: SourceLocation[]}>();
+  // The problems found by the static check (see `validate.ts`) in the most
+  // recent run:
+  const [problems, setProblems] = useState<Problem[]>([]);
+
+  function makePhase(
+    folding: Folding, logTitle: string, logText: string,
+    error?: string, location?: SourceLocation,
+  ): PhaseData {
+    const {mesh} = folding;
+    console.log("emitting phase:", logTitle);
+    const {vertices, loops, peers, pos, hePoint} = mesh;
+    const vtxToV3 = (v: Vertex) => mvToV3(pos(v));
+    const snapshot = folding.snapshot();
+    return {
+      logTitle, logText, error, location,
+      vertices: vertices.values().map(vtxToV3).toArray(),
+      vertexNames: vertices.values().map(v => v.name).toArray(),
+      boundaryNames: mesh.boundary ? mesh.boundary.vertices().map(v => v.name).toArray() : [],
+      faceNeighbors: Object.fromEntries(
+        (mesh.boundary?.vertices() ?? []).map(v => [
+          v.name, mesh.uniqueFaceNeighbors(v).map(w => w.name),
+        ]),
+      ),
+      edges: vertices.values().flatMap(v =>
+        v.neighbors().filter(w => v.id <= w.id)
+        .map(w => [vtxToV3(v), vtxToV3(w)] as [V3, V3])
+      ).toArray(),
+      triangles: loops.values().filter(l => l !== mesh.boundary).flatMap(l =>
+        triangulate(l.vertices().map(v => pos(v)).toArray())
+        .map(triangle => triangle.map(mvToV3))
+      ).toArray(),
+      peers:
+        peers.entries().filter(([he0, he1]) => he0.id <= he1.id)
+        .map(([he0, he1]) =>
+          [mvToV3(hePoint(he0, .5)), mvToV3(hePoint(he1, .5))] as [V3, V3]
+        ).toArray(),
+      starEdges: logTitle === "setup" && !error ? folding.mesh.starEdges() : undefined,
+      symmetry: error ? undefined : symmetry(snapshot),
+      state: error ? undefined : folding.serialize(),
+      snapshot,
+    };
+  }
+
+  /** Download data for the selected phase. */
+  function download(data: BlobPart, type: string, extension: string) {
+    const blob = new Blob([data], {type});
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `${example}-step-${Number(phaseNo) + 1}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  /**
+   * Download the state of the selected phase as a JSON file.
+   * It can be pasted into the setup text area to resume folding.
+   */
+  const saveState = () =>
+    download(JSON.stringify(phases[phaseNo].state), "application/json", "json");
+  const exportOBJ = () =>
+    download(toOBJ(phases[phaseNo].snapshot), "model/obj", "obj");
+  const exportSTL = () =>
+    download(toSTL(phases[phaseNo].snapshot), "model/stl", "stl");
+  const exportGLTF = () =>
+    download(JSON.stringify(toGLTF(phases[phaseNo].snapshot)), "model/gltf+json", "gltf");
+  /**
+   * Download the net for the commands up to the selected phase
+   * (of the most recent run).  Not available for saved states.
+   */
+  const canExportNet = () =>
+    !!phases[phaseNo]?.state && !runner.current?.setupDef.trimStart().startsWith("{");
+  const exportNet = () => download(
+    createNet(
+      runner.current.setupDef,
+      runner.current.lines.slice(0, Number(phaseNo)).join("\n"),
+    ),
+    "image/svg+xml", "svg",
+  );
 
   function run() {
-    const phasesList: PhaseData[] = [];
-
-    const polygonDef = polygonDefElem.current.value;
-    const actionsDef = actionsDefElem.current.value;
-
-    let logText = "";
-    let error = null;
-    const log = (...args: any[]) => { logText += args.join(" ") + "\n"; };
-    setLogger(log);
-    const mesh = new MyMesh(log, fail);
-
-    function emitPhase(logTitle: string) {
-      console.log("emitting phase:", logTitle);
-      const {vertices, loops, peers, pos, hePoint} = mesh;
-      const vtxToV3 = (v: Vertex) => mvToV3(pos(v));
-      phasesList.push({
-        logTitle, logText, error,
-        vertices: vertices.values().map(vtxToV3).toArray(),
-        vertexNames: vertices.values().map(v => v.name).toArray(),
-        edges: vertices.values().flatMap(v =>
-          v.neighbors().filter(w => v.id <= w.id)
-          .map(w => [vtxToV3(v), vtxToV3(w)] as [V3, V3])
-        ).toArray(),
-        triangles: loops.values().filter(l => l !== mesh.boundary).flatMap(l =>
-          triangulate(l.vertices().map(v => pos(v)).toArray())
-          .map(triangle => triangle.map(mvToV3))
-        ).toArray(),
-        peers:
-          peers.entries().filter(([he0, he1]) => he0.id <= he1.id)
-          .map(([he0, he1]) =>
-            [mvToV3(hePoint(he0, .5)), mvToV3(hePoint(he1, .5))] as [V3, V3]
-          ).toArray(),
-      });
+    runner.current ??= new ScriptRunner(makePhase);
+    const setupDef = polygonDefElem.current.value;
+    const text = actionsDefElem.current.value;
+    const phasesList = runner.current.run(setupDef, text);
+    setPhases([...phasesList]);
+    setPhaseNo(phasesList.length - 1);
+    const newProblems = validateScript(setupDef, text);
+    setProblems(newProblems);
+    const {location} = phasesList.at(-1);
+    const locations = [
+      ...location ? [location] : [],
+      ...newProblems.map(p => p.location).filter(l => l !== undefined),
+    ];
+    setHighlight(locations.length > 0 ? {text, locations} : undefined);
+  }
+
+  /** Select the offending token at `location` in the transform text. */
+  function selectLocation(location: SourceLocation) {
+    if (!highlight) return;
+    const [start, end] = locationRange(highlight.text, location);
+    actionsDefElem.current.focus();
+    actionsDefElem.current.setSelectionRange(start, end);
+  }
+
+  const locationLink = (location: SourceLocation) =>
+    <a href="#" onClick={e => { e.preventDefault(); selectLocation(location); }}>
+      line {location.line}, column {location.column}
+    </a>;
+
+  /**
+   * The vertex names for completion in the given transform line:
+   * the names after the last successful phase before the line
+   * (in the most recent run), boundary vertices first
+   */
+  function vertexNamesAt(line: number) {
+    const nCommands = runner.current?.statements.filter(statement => statement < line).length ?? 0;
+    const phase = phases.slice(0, nCommands + 1).findLast(phase => !phase.error);
+    if (!phase) return [];
+    const {boundaryNames, vertexNames} = phase;
+    const boundary = new Set(boundaryNames);
+    return [
+      ...[...boundary].sort(),
+      ...vertexNames.filter(name => !boundary.has(name)).sort(),
+    ];
+  }
+
+  /**
+   * Replace the transform text by a script from the planner.
+   * (This may take a few seconds.)
+   */
+  function plan() {
+    let result: ReturnType<typeof planFolding>;
+    try {
+      result = planFolding(polygonDefElem.current.value);
+    } catch (e) {
+      alert(`Cannot plan a folding: ${e.message}`);
+      return;
+    }
+    const {script, report} = result;
+    if (!script) {
+      alert(`No folding found:\n${report.join("\n")}`);
+      return;
     }
+    actionsDefElem.current.value = script.trimEnd();
+    setRedoLines([]);
+    run();
+  }
 
-    createPhases: {
-      try {
-        mesh.setup(polygonDef);
-        mesh.logMesh();
-        mesh.checkWithData();
-      } catch (e) {
-        error = e.toString();
-        log("CAUGHT EXCEPTION:", e);
-        break createPhases;
-      }
-      finally {
-        emitPhase("setup")
-      }
-
-      for (const line of getLines(actionsDef)) {
-        logText = "";
-        try {
-          const [cmd, ...args] = line.trim().split(/\s+/);
-          if (!cmdNames.includes(cmd)) fail(`Unknown command "${cmd}"`);
-          mesh[cmd](args);
-          mesh.logMesh();
-          mesh.checkWithData();
-        } catch (e) {
-          error = e.toString();
-          log("CAUGHT EXCEPTION:", e, "\nstack:\n" + e.stack);
-          break createPhases;
-        } finally {
-          emitPhase(line);
-        }
-      }
+  /**
+   * Enumerate Thurston stars (at most 1000).
+   * (This may take a few seconds.)
+   */
+  function enumerate() {
+    const maxArea = starAreaElem.current.value.trim();
+    try {
+      setStars(enumerateStars({
+        edges: Number(starEdgesElem.current.value),
+        maxNorm: Number(starNormElem.current.value),
+        maxArea: maxArea ? Number(maxArea) : undefined,
+        limit: 1000,
+      }));
+    } catch (e) {
+      alert(`Cannot enumerate stars: ${e.message}`);
     }
+  }
 
-    setPhases(phasesList);
-    setPhaseNo(phasesList.length - 1);
+  /** Use an enumerated star as setup and fold it automatically. */
+  function selectStar(idx: number) {
+    const star = stars[idx];
+    if (!star) return;
+    polygonDefElem.current.value = star.setup.trim();
+    actionsDefElem.current.value = `fold auto ${String.fromCharCode(97 + star.edges.length)}`;
+    setRedoLines([]);
+    run();
+  }
+
+  /**
+   * Remove the last command (or macro definition or loop)
+   * from the transform text.
+   */
+  function undo() {
+    const text = actionsDefElem.current.value;
+    const lines = text.split("\n");
+    const statement = lastStatement(text);
+    if (!statement) return;
+    const {start, end} = statement;
+    setRedoLines([...redoLines, lines.slice(start, end).join("\n")]);
+    lines.splice(start, end - start);
+    actionsDefElem.current.value = lines.join("\n").trimEnd();
+    run();
+  }
+
+  /** Append a command built by picking vertices and run it. */
+  function appendCommand(command: string) {
+    const text = actionsDefElem.current.value.trimEnd();
+    actionsDefElem.current.value = text + (text ? "\n" : "") + command;
+    setRedoLines([]);
+    setPicked([]);
+    run();
+  }
+
+  /**
+   * Vertices can be picked in the last step if it succeeded.
+   * Each vertex after the first one must share a face with the previous one.
+   */
+  const canPick = pickMode !== "off" && phases.length > 0 &&
+    Number(phaseNo) === phases.length - 1 && !phases.at(-1).error;
+  const pickCandidates = !canPick ? [] :
+    picked.length === 0 ? phases.at(-1).boundaryNames :
+    phases.at(-1).faceNeighbors[picked.at(-1)] ?? [];
+
+  function finishBend() {
+    if (picked.length < 2) return;
+    appendCommand(`bend ${bendAngle.trim() || ".5"} ${picked.join(" ")}`);
   }
 
+  function pick(name: string) {
+    // Picking the last vertex again finishes a "bend":
+    if (pickMode === "bend" && name === picked.at(-1)) return finishBend();
+    if (!pickCandidates.includes(name)) return;
+    const newPicked = [...picked, name];
+    if (pickMode === "reattach" && newPicked.length === 2) {
+      appendCommand(`reattach ${newPicked.join(" ")}`);
+    } else if (pickMode === "bend2" && newPicked.length === 3) {
+      appendCommand(`bend2 ${bend2Choice} ${newPicked.join(" ")}`);
+    } else {
+      setPicked(newPicked);
+    }
+  }
+
+  // The 3D view is only updated when the picked vertices change,
+  // but picking should use the current angle and choice:
+  const pickRef = useRef(pick);
+  pickRef.current = pick;
+
+  /** Re-append the most recently undone command. */
+  function redo() {
+    if (redoLines.length === 0) return;
+    const text = actionsDefElem.current.value.trimEnd();
+    actionsDefElem.current.value = text + (text ? "\n" : "") + redoLines.at(-1);
+    setRedoLines(redoLines.slice(0, -1));
+    run();
+  }
+
+  useEffect(() => {
+    view.current = createView(canvas.current);
+    return () => view.current.dispose();
+  }, []);
+
   useEffect(() => {
-    if (canvas.current && phases.length > 0) {
-      return renderToCanvas(
-        canvas.current, phases[phaseNo],
-        showVertices, showVertexNames, showEdges, showFaces, showPeers, showGrid,
+    if (phases.length > 0) {
+      view.current.update(
+        phases[phaseNo],
+        {
+          showVertices, showVertexNames, showEdges, showFaces, showPeers, showGrid,
+          showStarEdges,
+          center: centroid((fixedFrame ? phases[0] : phases[phaseNo]).vertices),
+        },
+        canPick ? {picked, candidates: pickCandidates, onPick: name => pickRef.current(name)} : undefined,
       );
     }
   }, [
-    canvas.current, phases, phaseNo,
+    phases, phaseNo,
     showVertices, showVertexNames, showEdges, showFaces, showPeers, showGrid,
+    showStarEdges, fixedFrame, pickMode, picked,
   ]);
 
   useEffect(run, []);
@@ -149,7 +397,7 @@ export function App() {
           </div>
           <div class="with-margin">
             Select example: {}
-            <select onChange={e => setExample(e.target["value"])}>
+            <select onChange={e => { setExample(e.target["value"]); setRedoLines([]); setHighlight(undefined); setProblems([]); }}>
               {Object.entries(examples).map(([key, value]) => (
                 <option selected={example === key} value={key}>
                   {value.label ?? key}
@@ -160,22 +408,73 @@ export function App() {
               <summary>example info</summary>
               {examples[example].info.trim()}
             </details>
+            <details>
+              <summary>enumerate stars</summary>
+              <label>
+                edges: <input ref={starEdgesElem} type="number" min={7} max={12} value={11} style={{width: "4em"}}/>
+              </label> {}
+              <label>
+                max. norm: <input ref={starNormElem} type="number" min={1} value={7} style={{width: "4em"}}/>
+              </label> {}
+              <label>
+                max. area: <input ref={starAreaElem} type="number" min={0} style={{width: "4em"}}/>
+              </label> {}
+              <button onClick={enumerate}>enumerate</button>
+              {stars.length > 0 && (
+                <div>
+                  {stars.length}{stars.length === 1000 ? " or more" : ""} stars: {}
+                  <select onChange={e => selectStar(Number(e.target["value"]))}>
+                    <option value={-1}>select a star</option>
+                    {stars.map((star, i) => (
+                      <option value={i}>#{i + 1} (area {star.area})</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </details>
           </div>
           <textarea ref={polygonDefElem} rows={20} cols={10}>
             {examples[example].setup.trim()}
           </textarea>
-          <textarea ref={actionsDefElem} rows={20} cols={35}>
-            {examples[example].transform.trim()}
-          </textarea>
+          <TransformEditor
+            textareaRef={actionsDefElem}
+            defaultText={examples[example].transform.trim()}
+            marks={highlight}
+            vertexNames={vertexNamesAt}
+            onInput={() => { setHighlight(undefined); setProblems([]); }}
+          />
           <br/>
-          <button onClick={run}>run</button>
+          <button onClick={run}>run</button> {}
+          <button onClick={undo} disabled={phases.length <= 1}>undo</button> {}
+          <button onClick={redo} disabled={redoLines.length === 0}>redo</button> {}
+          <button onClick={plan} title="replace the transform by a planned script">plan</button>
           {phases.length > 0 && (
             <div class="with-margin">
               {
                 phases.at(-1).error
-                ? <a href={`#phase-${phases.length}`}>Failure at step #{phases.length}</a>
+                ? <>
+                    <a href={`#phase-${phases.length}`}>Failure at step #{phases.length}</a>
+                    {highlight && phases.at(-1).location && <> {}
+                      ({locationLink(phases.at(-1).location)})
+                    </>}
+                  </>
                 : `${phases.length} step${phases.length === 1 ? "" : "s"} succeeded`
               }
+              {problems.length > 0 && (
+                <details open>
+                  <summary>
+                    {problems.length} problem{problems.length === 1 ? "" : "s"} found by the static check
+                  </summary>
+                  <ul class="problems">
+                    {problems.map(({error, location, note}) => (
+                      <li>
+                        {location ? locationLink(location) : "setup"}: {error.message}
+                        {note && <> ({note})</>}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
               <br/>
               <label>
                 Select step:
@@ -191,6 +490,15 @@ export function App() {
                   ))}
                 </select>
               </label> {}
+              <button onClick={saveState} disabled={!phases[phaseNo]?.state}>
+                save state
+              </button>
+              <br/>
+              Export: {}
+              <button onClick={exportOBJ}>OBJ</button> {}
+              <button onClick={exportSTL}>STL</button> {}
+              <button onClick={exportGLTF}>glTF</button> {}
+              <button onClick={exportNet} disabled={!canExportNet()}>net (SVG)</button>
               <br/>
               Show...
               <br/>
@@ -241,18 +549,92 @@ export function App() {
                 /> {}
                 grid
               </label>
+              <br/>
+              <label title="edges of the polyhedron as segments in the unfolded star">
+                <input type="checkbox"
+                  checked={showStarEdges}
+                  onChange={e => setShowStarEdges(e.target["checked"])}
+                /> {}
+                polyhedron edges
+              </label>
+              <br/>
+              <label title="the point shown at the center of the view">
+                Center: {}
+                <select onChange={e => setFixedFrame(e.target["value"] === "setup")}>
+                  <option selected={!fixedFrame} value="step">centroid of each step</option>
+                  <option selected={fixedFrame} value="setup">centroid of the setup (fixed frame)</option>
+                </select>
+              </label>
+              <br/>
+              <label title="click vertices in the 3D view to append a command">
+                Pick vertices for: {}
+                <select onChange={e => { setPickMode(e.target["value"]); setPicked([]); }}>
+                  {["off", "bend", "bend2", "reattach"].map(mode => (
+                    <option selected={pickMode === mode} value={mode}>{mode}</option>
+                  ))}
+                </select>
+              </label>
+              {pickMode === "bend" && <> {}
+                <label>
+                  angle: {}
+                  <input value={bendAngle} onInput={e => setBendAngle(e.target["value"])} style={{width: "8em"}}/>
+                </label>
+              </>}
+              {pickMode === "bend2" && <> {}
+                <select onChange={e => setBend2Choice(e.target["value"])}>
+                  {["+", "-"].map(choice => (
+                    <option selected={bend2Choice === choice} value={choice}>{choice}</option>
+                  ))}
+                </select>
+              </>}
+              {pickMode !== "off" && (
+                <div>
+                  {
+                    !canPick ? "(select the last step, which must have succeeded)" :
+                    picked.length === 0 ? "(click a boundary vertex)" :
+                    `picked: ${picked.join(" ")}`
+                  } {}
+                  {pickMode === "bend" && (
+                    <button onClick={finishBend} disabled={picked.length < 2}
+                      title="or click the last vertex again"
+                    >
+                      append
+                    </button>
+                  )} {}
+                  <button onClick={() => setPicked([])} disabled={picked.length === 0}>
+                    cancel
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
         <canvas ref={canvas}/>
       </div>
       <div class="with-margin" style={{width: "fit-content"}}>
-        {phases.map(({error, logTitle, logText}, i) => (
+        {phases.map(({error, logTitle, logText, starEdges, symmetry}, i) => (
           <div className="phase" style={`background: #${error ? "fee" : "efe"};`}>
             <details open={Boolean(error)} id={`phase-${i+1}`}>
               <summary><code>{i+1}. {logTitle}</code></summary>
               <pre>{logText}</pre>
             </details>
+            {starEdges && (
+              <details>
+                <summary><code>intrinsic edges</code></summary>
+                <pre>
+                  {"Delaunay triangulation:\n" + formatEdges(starEdges.delaunay)}
+                  {"\n\npolyhedron:\n" + (
+                    starEdges.polyhedron ? formatEdges(starEdges.polyhedron) : "(not found)"
+                  )}
+                </pre>
+              </details>
+            )}
+            {symmetry && (
+              <details>
+                <summary><code>symmetry: {symmetry.group}</code></summary>
+                <pre>{describeSymmetry(symmetry)}</pre>
+              </details>
+            )}
           </div>
         ))}
       </div>
@@ -260,20 +642,88 @@ export function App() {
   );
 }
 
-function renderToCanvas(
-  canvas: HTMLCanvasElement,
-  phaseData: PhaseData,
+/** The symmetry of the state (if it can be determined) */
+function symmetry(snapshot: Snapshot) {
+  try {
+    return symmetryOf(snapshot);
+  } catch {
+    return undefined;
+  }
+}
+
+const formatEdges = (edges: IntrinsicEdge[]) =>
+  edges.map(({from, to, length, segment}) =>
+    `${from} - ${to}: ${length.toFixed(4)}` +
+    (segment ? ` (star segment ${segment.join(" - ")})` : ` (crosses glued edges)`)
+  ).join("\n");
+
+type ViewOptions = {
   showVertices: boolean,
   showVertexNames: boolean,
   showEdges: boolean,
   showFaces: boolean,
   showPeers: boolean,
   showGrid: boolean,
-) {
-  const {
-    vertices, vertexNames, edges, triangles, peers,
-  } = phaseData;
+  showStarEdges: boolean,
+  /** The point to be placed at the origin (where the camera looks at) */
+  center: V3,
+};
+
+/** The objects showing a mesh topology in the 3D view */
+type Model = {
+  /** See `topologyKey(...)` */
+  key: string,
+  /** The parent of all the objects */
+  node: B.TransformNode,
+  balls: B.Mesh[],
+  /** Labels for the vertices with the given indices (not for the tips) */
+  labels: {index: number, labelPos: B.TransformNode, label: G.TextBlock}[],
+  edges: B.Mesh[],
+  peers: B.Mesh[],
+  starEdges: B.Mesh[],
+  /** A single mesh containing all the face triangles (if any) */
+  faces?: B.Mesh,
+};
+
+/**
+ * Phases with the same key can be shown by the same objects
+ * (with different positions).
+ */
+const topologyKey = ({vertexNames, edges, triangles, peers, starEdges}: PhaseData) =>
+  JSON.stringify([
+    vertexNames, edges.length, triangles.length, peers.length,
+    (starEdges?.polyhedron ?? starEdges?.delaunay ?? []).map(({segment}) => segment),
+  ]);
+
+const trianglePositions = (triangles: V3[][]) =>
+  triangles.flatMap(triangle => triangle.flatMap(v => v.asArray()));
 
+const triangleIndices = (triangles: V3[][]) =>
+  triangles.flatMap((_, i) => [3 * i, 3 * i + 1, 3 * i + 2]);
+
+function triangleNormals(positions: number[], indices: number[]) {
+  const normals: number[] = [];
+  B.VertexData.ComputeNormals(positions, indices, normals);
+  return normals;
+}
+
+/** The star edges to be shown (with a segment in the unfolded star) */
+function starEdgePaths({vertices, vertexNames, starEdges}: PhaseData) {
+  const byName = new Map(vertexNames.map((name, i) => [name, vertices[i]]));
+  return (starEdges?.polyhedron ?? starEdges?.delaunay ?? [])
+    .filter(({segment}) => segment)
+    .map(({segment}) => segment.map(name => byName.get(name)));
+}
+
+/**
+ * Create a 3D view on the canvas, which lives as long as the canvas.
+ * The engine, the scene, the camera, and the lights are created only once,
+ * so the camera position is kept when the displayed phase or the options
+ * change.  The objects showing the mesh are re-created only when its
+ * topology changes.  Otherwise `update(...)` just moves, shows, hides, or
+ * re-colors them.
+ */
+function createView(canvas: HTMLCanvasElement) {
   const noBubble = (e: Event) => e.preventDefault();
   canvas.addEventListener("wheel", noBubble);
 
@@ -290,6 +740,13 @@ function renderToCanvas(
   const innerMaterial = new B.StandardMaterial("innerMaterial", scene);
   innerMaterial.diffuseColor = B.Color3.Blue();
 
+  const pickedMaterial = new B.StandardMaterial("pickedMaterial", scene);
+  pickedMaterial.diffuseColor = new B.Color3(1, .5, 0);
+
+  const candidateMaterial = new B.StandardMaterial("candidateMaterial", scene);
+  candidateMaterial.diffuseColor = B.Color3.Green();
+  candidateMaterial.emissiveColor = new B.Color3(0, .4, 0);
+
   const edgeMaterial = new B.StandardMaterial("edgeMaterial", scene);
   edgeMaterial.diffuseColor = B.Color3.Green();
 
@@ -308,79 +765,12 @@ function renderToCanvas(
   faceMaterial.sideOrientation = B.VertexData.DOUBLESIDE;
   faceMaterial.backFaceCulling = false;
 
+  const starEdgeMaterial = new B.StandardMaterial("starEdgeMaterial", scene);
+  starEdgeMaterial.diffuseColor = B.Color3.Purple();
+
   const gridMaterial = new B.StandardMaterial("gridMaterial", scene);
   gridMaterial.diffuseColor = B.Color3.Black();
 
-  const center = vertices
-    .reduce((acc, v) => acc.addInPlace(v), V3.Zero())
-    .scaleInPlace(1 / vertices.length);
-
-  const root = new B.TransformNode("root", scene);
-  root.position = center.negate();
-
-  if (showVertices) {
-    vertices.forEach((pos, i) => {
-      const ball = B.MeshBuilder.CreateIcoSphere("vtx" + i, {radius: .03});
-      ball.position = pos;
-      ball.parent = root;
-      ball.material = vertexNames[i].includes("^") ? tipMaterial : innerMaterial;
-    });
-  }
-  if (showVertexNames) {
-    vertices.forEach((pos, i) => {
-      const labelText = vertexNames[i];
-      if (labelText.includes("^")) return;
-      const labelPos = new B.TransformNode("labelPos" + i, scene);
-      labelPos.parent = root;
-      labelPos.position = v3(0, .2, 0).addInPlace(pos);
-      const label = new G.TextBlock("label" + i, labelText);
-      label.color = "#fff";
-      label.fontSize = 16;
-      advancedTexture.addControl(label);
-      label.linkWithMesh(labelPos);
-    });
-  }
-  if (showEdges) {
-    edges.forEach((path, i) => {
-      const line = B.MeshBuilder.CreateTube("line" + i, {path, radius: .01});
-      line.material = edgeMaterial;
-      line.parent = root;
-    });
-  }
-  if (showPeers) {
-    peers.forEach((path, i) => {
-      const line = B.MeshBuilder.CreateTube("line" + i, {path, radius: .01});
-      line.material = peerMaterial;
-      line.parent = root;
-    });
-  }
-  if (showFaces) {
-    triangles.forEach((triangle, i) => {
-      const mesh = new B.Mesh("triangle" + i, scene);
-      const vertexData = new B.VertexData();
-      vertexData.positions = triangle.flatMap(v => v.asArray());
-      vertexData.indices = [0,1,2];
-      vertexData.applyToMesh(mesh);
-      mesh.material = faceMaterial;
-      mesh.parent = root;
-    });
-  }
-  if (showGrid) {
-    for (let i = -12; i < 4; i++) {
-      for (const [skewDown, skewUp] of [[0,0], [0.5, 0.5], [-5,+5], [+5,-5]]) {
-        const line = B.MeshBuilder.CreateTube("grid", {
-          path: [
-            v3((i+skewDown)*r3, -5, 0),
-            v3((i+skewUp  )*r3, +5, 0),
-          ],
-          radius: 0.005,
-        });
-        line.material = gridMaterial;
-        line.parent = root;
-      }
-    }
-  }
-
   const camera = new B.ArcRotateCamera("camera", -Math.PI / 2, Math.PI / 2, 10, v3(0, 0, 0), scene);
   camera.lowerRadiusLimit = 3;
   camera.upperRadiusLimit = 30;
@@ -408,686 +798,173 @@ function renderToCanvas(
     axis.material = material;
   });
 
-  const renderScene = () => scene.render()
-  engine.runRenderLoop(renderScene);
-
-  const resizeEngine = () => engine.resize();
-  window.addEventListener("resize", resizeEngine);
-
-  return () => {
-    window.removeEventListener("resize", resizeEngine);
-    engine.stopRenderLoop(renderScene);
-    engine.dispose();
-    canvas.removeEventListener("wheel", noBubble);  
-  };
-}
-
-render(<App />, document.getElementById('app'));
-
-// -----------------------------------------------------------------------------
-
-const r3 = Math.sqrt(3), r3half = r3 / 2;
-
-const steps = {
-  "12": XYZ.vec([ 0 * r3half,  2 / 2, 0]),
-   "1": XYZ.vec([ 1 * r3half,  3 / 2, 0]),
-   "2": XYZ.vec([ 1 * r3half,  1 / 2, 0]),
-   "3": XYZ.vec([ 2 * r3half,  0 / 2, 0]),
-   "4": XYZ.vec([ 1 * r3half, -1 / 2, 0]),
-   "5": XYZ.vec([ 1 * r3half, -3 / 2, 0]),
-   "6": XYZ.vec([ 0 * r3half, -2 / 2, 0]),
-   "7": XYZ.vec([-1 * r3half, -3 / 2, 0]),
-   "8": XYZ.vec([-1 * r3half, -1 / 2, 0]),
-   "9": XYZ.vec([-2 * r3half,  0 / 2, 0]),
-  "10": XYZ.vec([-1 * r3half,  1 / 2, 0]),
-  "11": XYZ.vec([-1 * r3half,  3 / 2, 0]),
-};
-
-
-class MyMesh extends Mesh {
-  boundary: Loop;
-  positions = new WeakMap<Vertex, MV>();
-  setPos = (v: Vertex, pos: MV) => this.positions.set(v, pos);
-  pos = (v: Vertex) => {
-    if (!this.positions.has(v)) fail(`vertex ${v} has no position`);
-    return this.positions.get(v);
-  }
-
-  // TODO make this a WeakMap?
-  peers = new Map<HalfEdge, HalfEdge>();
-
-  constructor(
-    log: (...args: any[]) => unknown,
-    fail: (msg: string) => never,
-  ) {
-    super(log, fail);
-  }
-
-  setup(def: string) {
-    const [innerHE, outerHE] = this.addCore();
-    this.boundary = outerHE.loop
-    const star = innerHE.loop;
-    star.name = "star";
-    outerHE.loop.name = "boundary";
-    innerHE.to.name = "dummy";
-    this.setPos(innerHE.to, XYZ.vec([0, 0, 0]))
-    this.peers.set(outerHE, outerHE);
-    this.logMesh();
-    this.checkWithData();
-
-    let currentPos = XYZ.vec([0, 0, 0]);
-    let tips: Vertex[] = [];
-
-    for (const line of getLines(def)) {
-      const [name, ...moves] = line.split(/\s+/);
-      const fromPos = currentPos;
-      for (const move of moves) {
-        currentPos = XYZ.plus(currentPos, steps[move] ?? fail(`unknown step: ${move}`))
-      }
-      const innerPos = XYZ.plus(fromPos, rotXY60(XYZ.minus(currentPos, fromPos)));
-
-      const [innerHE0, outerHE0] = this.splitEdgeAcross(outerHE);  
-      const tip = innerHE0.from;
-      this.setPos(tip, fromPos);
-      tips.push(tip);
-
-      const [innerHE1, outerHE1] = this.splitEdgeAcross(outerHE);
-      const inward = innerHE1.from;
-      inward.name = name;
-      this.setPos(inward, innerPos);
-
-      this.peers.set(outerHE0, outerHE1).set(outerHE1, outerHE0);
-    }
-
-    if (XYZ.normSquared(currentPos) > 1e-12) fail(
-      `polygon not closed; offset: ${JSON.stringify(currentPos)}`
-    );
-
-    // remove dummy node
-    this.contractEdge(outerHE);
-    this.peers.delete(outerHE);
-
-    tips.forEach(tip => {
-      let [he0, he1] = tip.halfEdgesOut();
-      if (he0.loop === star) [he0, he1] = [he1, he0];
-      tip.name = `${he0.to.name}^${he1.to.name}`;
-    });
-  }
-
-  checkWithData() {
-    this.check();
-
-    for (const loop of this.loops) {
-      if (loop !== this.boundary && !this.isLoopFlat(loop)) {
-        fail(`face ${loop} not flat`);
-      }
-    }
-    for (const vertex of this.vertices) {
-      let i = 0;
-      for (const he of vertex.halfEdgesOut()) {
-        if (i > 50) {
-          fail(`neighborhood of vertex ${vertex} too long`)
-        }
-        if (he.from !== vertex) {
-          fail(`${he}: he.from ${he.from} should be ${vertex} (he: ${he}, he.to: ${he.to})`);
-        }
-      }
-    }
-    this.checkPeers();
-    log("mesh checked");
-  }
-
-  checkPeers(): void {
-    const {boundary, peers} = this;
-
-    if (!boundary) { // The manifold is completely folded to a polyhedron
-      assert(peers.size === 0);
-      return;
-    }
-
-    for (const he of boundary.halfEdges()) {
-      assert(peers.has(he));
-    }
-    for (const [he0, he1] of peers) {
-      if (he0.loop !== boundary) fail(
-        `half-edge ${
-          he0} (${he0.from} - ${he0.to}) with peer ${
-          he0} (${he1.from} - ${he1.to}) found on non-boundary ${he0.loop}`
-      );
-      if (peers.get(he1) !== he0) fail(
-        `peers not reciprocal: ${
-          he0} (${he0.from} - ${he0.to}) and ${
-          he0} (${he1.from} - ${he1.to})`
-      );
-      // Relaxed check so that it works after approximative "contract":
-      if (Math.abs(this.heLength(he0) - this.heLength(he1)) > 1e-3) log(
-        `WARNING: peer lengths do not fit: ${
-          he0}: ${he0.from} ==${this.heLength(he0)}==> ${he0.to} vs. ${
-          he1}: ${he1.from} ==${this.heLength(he1)}==> ${he1.to}`
-      );
-
-    }
-  }
+  // All models are placed relative to the root, which is moved so that
+  // the center is at the origin:
+  const root = new B.TransformNode("root", scene);
 
-  logMesh() {
-    const {vertices, loops, peers} = this;
-    for (const l of loops) {
-      log(l, "=", ...[...l.halfEdges()].flatMap(he => [he, he.to]));
-      log(`  = (${count(l.halfEdges())}):`, ...[...l.halfEdges().map(he => he.to.name)]);
-    }
-    for (const v of vertices) {
-      log(v, ":", ...[...v.halfEdgesOut()].flatMap(he => [he.loop, he]));
-      log(`  : (${count(v.halfEdgesOut())}):`, ...[...v.halfEdgesOut().flatMap(he => [he.loop.name, he.to.name])]);
-    }
-    for (const v1 of vertices) {
-      const nearby =
-        vertices.values()
-        .filter(v2 => v2 !== v1 && this.distance(v1, v2) < 1e-4)
-        .toArray();
-      if (nearby.length > 0) log(`Nearby ${v1}:`, ...nearby);
-    }
-    log(`${
-      vertices.size} vertices (${
-      count(vertices.values().filter(v => v.name.includes("^")))} tips), ${
-      loops.size} loops (${
-      [...loops].filter(l => l !== this.boundary).length
-    } faces)`);
-    const edgeMessages: string[] = [];
-    for (const l of loops) {
-      if (l === this.boundary) continue;
-      for (const he of l.halfEdges()) {
-        if (he.twin.loop === this.boundary) continue;
-        if (he.from.name > he.to.name) continue; // avoid duplicate output
-        // TODO compute a directed angle (as seen when looking along the half-edge)?
-        const angle = XYZ.getAngle(this.faceOrientation(he), this.faceOrientation(he.twin));
-        const length = XYZ.dist(this.pos(he.from), this.pos(he.to));
-        edgeMessages.push(
-          `${he.from.name}->${he.to.name}: ${
-            length.toFixed(5)}, ${((.5-angle/TAU)*360).toFixed(5)}° ${
-            he.from} ==[${he}(${he.loop})|${he.twin}(${he.twin.loop})]==> ${he.to}`
-        );
-      }
-    }
-    log(edgeMessages.sort().join("\n"));
-    for (const [he0, he1] of peers) {
-      if (he0.id > he1.id) continue;
-      log(`peers: ${
-        he0} (${he0.from.name}->${he0.to.name}), ${
-        he1} (${he1.from.name}->${he1.to.name})`
-      );
+  const grid = new B.TransformNode("grid", scene);
+  grid.parent = root;
+  for (let i = -12; i < 4; i++) {
+    for (const [skewDown, skewUp] of [[0,0], [0.5, 0.5], [-5,+5], [+5,-5]]) {
+      const line = B.MeshBuilder.CreateTube("grid", {
+        path: [
+          v3((i+skewDown)*r3, -5, 0),
+          v3((i+skewUp  )*r3, +5, 0),
+        ],
+        radius: 0.005,
+      }, scene);
+      line.material = gridMaterial;
+      line.parent = grid;
     }
   }
 
-  bend(args: string[]) {
-    const {vertices, pos} = this;
+  // The model of the current mesh topology:
+  let model: Model | undefined;
+  let picking: Picking | undefined;
 
-    if (args.length < 3) fail("bend expects 3 or more args");
-    const angle = Number.parseFloat(args.shift());
-    if (Number.isNaN(angle)) fail(
-      "first arg of bend should be a number (an angle)."
+  // (Taps only, so that dragging still rotates the camera.)
+  scene.onPointerObservable.add(({type}) => {
+    if (!picking || type !== B.PointerEventTypes.POINTERTAP) return;
+    const {hit, pickedMesh} = scene.pick(
+      scene.pointerX, scene.pointerY, mesh => mesh.metadata?.vertexName !== undefined,
     );
-    const [first, ...rest] = args.map(name => {
-      const found = vertices.values().filter(v => v.name === name).toArray();
-      if (found.length !== 1) fail(
-        `found ${found.length} vertices with name "${name}".`
-      );
-      const v = found[0];
-      if (!v.loops().some(l => l === this.boundary)) fail(
-        `vertex ${v} is not adjacent to the boundary.`
-      );
-      return v;
-    });
-
-    let prev = first;
-    for (const current of rest) {
-      const face = this.findUniqueFace(prev, current);
-      const he_face_prev = findUnique(face.halfEdges(), he => he.to === prev);
-      const he_face_current = findUnique(face.halfEdges(), he => he.to === current);
-      const beyond = collectVertices(he_face_current.from, new Set([prev, current]));
-      log("step:", prev, current, `{${beyond.values().toArray().join(" ")}}`)
-      const [heSplit] = this.splitLoop(he_face_current, he_face_prev, {create: "left"});
-      heSplit.loop.name = `split(${prev.name}-${current.name})`;
-
-      // TODO simplify geometry
-      const pivot = pos(current);
-      const from = this.faceOrientation(heSplit);
-      const to = XYZ.sandwich(
-        XYZ.exp(XYZ.scale(-angle/2, XYZ.normalize(XYZ.dual(XYZ.minus(pos(prev), pivot)))))
-      )(from);
-      this.rotatePoints(
-        pivot,
-        XYZ.plus(pivot, from),
-        XYZ.plus(pivot, to),
-        beyond,
-      );
-
-      prev = current;
-    }
-  }
-
-  bend2(args: string[]) {
-    const {vertices, peers, pos} = this;
+    if (hit) picking.onPick(pickedMesh.metadata.vertexName);
+  });
 
-    if (args.length !== 4) fail("bend2 expects 4 args");
-    const choice = args.shift();
-    if (!["+", "-"].includes(choice)) fail(
-      "first arg of bend2 should be '+' or '-'."
-    );
-    const [p, q, r] = args.map(name => {
-      const found = vertices.values().filter(v => v.name === name).toArray();
-      if (found.length !== 1) fail(
-        `found ${found.length} vertices with name "${name}".`
-      );
-      const v = found[0];
-      if (!v.loops().some(l => l === this.boundary)) fail(
-        `vertex ${v} is not adjacent to the boundary.`
-      );
-      return v;
+  /**
+   * Create the objects for the topology of the given phase (all of them,
+   * even if they are not shown according to the current options).
+   * Their positions, visibility, and materials are set by `update(...)`.
+   */
+  function createModel(phaseData: PhaseData, key: string): Model {
+    const {vertexNames, edges, triangles, peers} = phaseData;
+    const node = new B.TransformNode("model", scene);
+    node.parent = root;
+    const tube = (name: string, path: V3[], radius: number, material: B.Material) => {
+      const line = B.MeshBuilder.CreateTube(name, {path, radius, updatable: true}, scene);
+      line.material = material;
+      line.parent = node;
+      return line;
+    };
+    const balls = vertexNames.map((name, i) => {
+      const ball = B.MeshBuilder.CreateIcoSphere("vtx" + i, {radius: .03}, scene);
+      ball.parent = node;
+      ball.metadata = {vertexName: name};
+      return ball;
     });
-
-    const he_q_boundary =
-      findUnique(q.halfEdgesOut(), he => he.loop === this.boundary);
-    const he_boundary_q = he_q_boundary.prev;
-
-    if (peers.get(he_boundary_q) !== he_q_boundary) fail(
-      `cannot attach non-peers ${
-      he_boundary_q} (${he_boundary_q.from} - ${he_boundary_q.to}) and ${
-        he_boundary_q} (${he_q_boundary.from} - ${he_q_boundary.to})`
-    );
-
-    const t1 = he_q_boundary.to;
-    const t2 = he_boundary_q.from;
-
-    // Use new names {s1, s2} for {p, r} in such a way that walking on the
-    // boundary counterclockwise (and thus against the half-edge directions)
-    // will reach the vertices in the order s1->q->s2->s1.
-    let s1: Vertex, s2: Vertex;
-    for (let count = 0, he = he_q_boundary; ; count++, he = he.next) {
-      if (count > 50) fail("runaway search loop");
-      if (he.to === p) { s1 = p; s2 = r; break; }
-      if (he.to === r) { s1 = r; s2 = p; break; }
-    }
-
-    const face1 = this.findUniqueFace(s1, q);
-    this.splitLoop(
-      findUnique(face1.halfEdges(), he => he.to === q),
-      findUnique(face1.halfEdges(), he => he.to === s1),
-      {create: "left"}
-    )[0].loop.name = `split(${q.name}-${s1.name})`;
-
-    const face2 = this.findUniqueFace(q, s2);;
-    this.splitLoop(
-      findUnique(face2.halfEdges(), he => he.to === s2),
-      findUnique(face2.halfEdges(), he => he.to === q),
-      {create: "left"}
-    )[0].loop.name = `split(${q.name}-${s2.name})`;
-
-    const border = new Set([s1, q, s2]);
-    const beyond1 = collectVertices(t1, border);
-    const beyond2 = collectVertices(t2, border);
-    assert(beyond1.isDisjointFrom(beyond2));
-
-    const [inters1 , inters2] = intersect3Spheres(
-      pos(s1), pos(t1),
-      pos(q ), pos(t1/* or t2 */),
-      pos(s2), pos(t2),
-    );
-    const inters = choice === "+" ? inters2 : inters1;
-
-    // TODO simplify geometry?
-    this.rotatePoints(projectPointToLine(pos(t1), pos(s1), pos(q)), pos(t1), inters, beyond1);
-    this.rotatePoints(projectPointToLine(pos(t2), pos(s2), pos(q)), pos(t2), inters, beyond2);
-    assert(this.distance(t1, t2) < 1e-8);
-
-    // TODO Let MeshG provide a method combining splitLoop and contractEdge?
-    // This would avoid creating a temporary edge and a temporary loop.
-    const tmpEdge = this.splitLoop(he_q_boundary, he_boundary_q.prev, {create: "left"});
-    this.contractEdge(tmpEdge[0]);
-    this.dropEdge(he_q_boundary);
-    assert(peers.delete(he_boundary_q));
-    assert(peers.delete(he_q_boundary));
-    t1.name = mergeNames(t2.name, t1.name);
-
-    const he_tip1_q_aux = findHE(t1, q);
-    if (this.isBetweenCoplanarLoops(he_tip1_q_aux)) {
-      // TODO create a test case for this situation
-      this.dropEdge(he_tip1_q_aux); 
+    const labels = vertexNames.flatMap((labelText, i) => {
+      if (labelText.includes("^")) return [];
+      const labelPos = new B.TransformNode("labelPos" + i, scene);
+      labelPos.parent = node;
+      const label = new G.TextBlock("label" + i, labelText);
+      label.color = "#fff";
+      label.fontSize = 16;
+      advancedTexture.addControl(label);
+      label.linkWithMesh(labelPos);
+      return [{index: i, labelPos, label}];
+    });
+    let faces: B.Mesh | undefined;
+    if (triangles.length > 0) {
+      faces = new B.Mesh("faces", scene);
+      const vertexData = new B.VertexData();
+      vertexData.positions = trianglePositions(triangles);
+      vertexData.indices = triangleIndices(triangles);
+      vertexData.normals = triangleNormals(vertexData.positions, vertexData.indices);
+      vertexData.applyToMesh(faces, true);
+      faces.material = faceMaterial;
+      faces.parent = node;
     }
+    return {
+      key, node, balls, labels, faces,
+      edges: edges.map((path, i) => tube("line" + i, path, .01, edgeMaterial)),
+      peers: peers.map((path, i) => tube("peer" + i, path, .01, peerMaterial)),
+      starEdges: starEdgePaths(phaseData).map((path, i) => tube("starEdge" + i, path, .015, starEdgeMaterial)),
+    };
   }
 
-  reattach(args: string[]) {
-    const {vertices, peers, pos, setPos} = this;
-
-    if (args.length !== 2) fail(`reattach expects 2 args`);
-    const [pName, qName] = args;
-    const p = findUnique(vertices, v => v.name === pName);
-    const q = findUnique(vertices, v => v.name === qName);
-    const face = this.findUniqueFace(p, q);
-    const he_face_p = findUnique(p.halfEdgesIn(), he => he.loop === face);
-    const he_face_q = findUnique(q.halfEdgesIn(), he => he.loop === face);
-    const he_boundary_p = findUnique([...p.halfEdgesIn()], he => he.loop === this.boundary);
-    const he_boundary_q = findUnique([...q.halfEdgesIn()], he => he.loop === this.boundary);
-    const he_q_boundary = he_boundary_q.next;
-    if (
-      peers.get(he_boundary_q) !== he_q_boundary ||
-      peers.get(he_q_boundary) !== he_boundary_q
-    ) fail(`cannot reattach at non-peers ${
-      he_boundary_q} (${he_boundary_q.from} - ${he_boundary_q.to}) and ${
-      he_q_boundary} (${he_q_boundary.from} - ${he_q_boundary.to})`);
-    const t1 = he_boundary_q.from;
-    const t2 = he_q_boundary.to;
-
-    const [he_pq_A, he_qp_A] = this.splitLoop(he_face_p, he_face_q, {create: "right"});
-    const [he_qp_B, he_pq_B] = this.splitLoop(he_pq_A, he_face_p, {create: "left"});
-    log("AB", he_qp_A.loop.name, he_qp_B.loop.name);
-    const [he_p0_p1, he_p1_p0] = this.splitVertex(he_qp_B, he_boundary_p, {create: "both"});
-    setPos(he_p0_p1.from, pos(p));
-    setPos(he_p0_p1.to, pos(p));
-    vertices.delete(p);
-    this.dropEdge(he_p0_p1);
-    peers.set(he_pq_A, he_qp_B).set(he_qp_B, he_pq_A);
-
-    // Now we have cut through p and face.  The two pieces should be connected
-    // only at q.
-
-    log("reattach info:",
-      Object.entries({p, q, t1, t2, he_p0_p1}).map(([k, v]) => `${k} = ${v}`).join("; "),
-      face, `{${face.vertices().toArray().join(" ")}}`,
-    );
-
-    const separator = new Set([q]);
-    const part1 = collectVertices(t1, separator);
-    const part2 = collectVertices(t2, separator);
-    assert(part1.isDisjointFrom(part2));
-    assert(part1.has(t1));
-    assert(part2.has(t2));
-
-    const [fromV, toV, fromHE, toHE, part] =
-      part1.size <= part2.size
-      ? [t1, t2, he_boundary_q, he_q_boundary, part1]
-      : [t2, t1, he_q_boundary, he_boundary_q, part2];
-
-    // q is not moved by reattachment.  So it is already in the right place.
-    // The following rotation of the snippet vertices ensures
-    // - that edges q-t1 and q-t2 coincide and
-    // - that the snippet fits with q and pNew (instead of p):
-    log("before rot1", q, pos(q), fromV, pos(fromV), toV, pos(toV),
-      "dist:", this.distance(fromV, toV),
-      `{${part.values().map(v => pos(v)).toArray().join(" ")}}`);
-    this.rotatePoints(pos(q), pos(fromV), pos(toV), part);
-    log("after rot1", q, pos(q), fromV, pos(fromV), toV, pos(toV),
-      "dist:", this.distance(fromV, toV),
-      `{${part.values().map(v => pos(v)).toArray().join(" ")}}`);
-    // But still the two faces behind q-t1 and q-t2 might not be in a plane.
-    // So we perform another rotation of the snippet around the newly
-    // coinciding edges:
-    this.rotatePoints(
-      pos(q),
-      // TODO Avoid adding pos(q), which is subtracted immediately inside rotatePoints(...)
-      XYZ.plus(pos(q), this.faceOrientation(fromHE.twin)),
-      XYZ.plus(pos(q), XYZ.negate(this.faceOrientation(toHE.twin))),
-      part,
-    );
-    log("after rot2", q, pos(q), fromV, pos(fromV), toV, pos(toV),
-      "dist:", this.distance(fromV, toV),
-      `{${part.values().map(v => pos(v)).toArray().join(" ")}}`);
-
-    const [he_t1_t2, he_t2_t1] =
-      this.splitLoop(he_q_boundary, he_q_boundary.prev.prev, {create: "left"});
-    const t = this.contractEdge(he_t1_t2);
-    t.name = mergeNames(he_t1_t2.from.name, he_t1_t2.to.name);
-    this.dropEdge(he_q_boundary);
-    if (!this.isBetweenCoplanarLoops(he_boundary_q)) fail(
-      `faces not coplanar: ${he_boundary_q.loop} and ${he_boundary_q.twin}`
-    );
-    this.dropEdge(he_boundary_q);
-    assert(this.peers.delete(he_boundary_q));
-    assert(this.peers.delete(he_q_boundary));
-    // TODO If more pairs of edges/vertices happen to align, merge them.
+  function disposeModel() {
+    if (!model) return;
+    // Dispose the objects, but keep the shared materials:
+    model.node.dispose(false, false);
+    model.labels.forEach(({label}) => label.dispose());
+    model = undefined;
   }
 
   /**
-   * Move the vertices in an iterative process towards a configuration such that
-   * - all existing edges keep their lengths,
-   * - the star tips coincide,
-   * - and corresponding boundary vertices (duplicated by reattach operations)
-   *   coincide.
-   * 
-   * The iteration steps do not keep faces flat.  Therefore the mesh must be
-   * fully triangulated before this method is called.
-   * 
-   * After the vertices have been moved, corresponding vertices and
-   * boundary edges are also merged topologically.
-   * 
-   * The only argument should be the number of iterations.
+   * Show the given phase.  The objects are re-created only if the
+   * topology differs from the previously shown phase.
    */
-  contract(args: string[]) {
-    if (args.length !== 2) fail(`"contract" expects 2 argument`);
-    const nSteps = Number.parseInt(args[0]);
-    if (Number.isNaN(nSteps) || nSteps < 1) fail(
-      `The argument of "contract" should be the number of optimization steps.`
-    );
-    const tipName = args[1];
-    if (this.vertices.values().some(v => v.name === tipName)) fail(
-      `New tip name "${tipName}" already in use.`
-    );
-
-    const {vertices, loops, boundary, pos, setPos} = this;
-
-    for (const l of loops) {
-      if (l !== boundary && l.halfEdges().toArray().length !== 3) fail(
-        `cannot run "contract" with non-triangle face: ${l} has ${
-          l.halfEdges().toArray().length
-        } edges.`
-      );
-    }
-
-    const connections = new Map<Vertex, Map<Vertex, number>>();
-    for (const va of vertices) {
-      const vaConnections =
-        new Map(va.neighbors().map(vb => [vb, this.distance(va, vb)]));
-
-      // It's a bit hacky to detect peer nodes by name
-      // (but it's easier than tracing reattachments).
-      const vaBase = va.name.replace(/\..*$/, "");
-      for (const vb of boundary.vertices()) {
-        if (vb === va) continue;
-        if (vb.name.replace(/\..*$/, "") === vaBase) {
-          assert(!vaConnections.has(vb));
-          vaConnections.set(vb, 0);
-        } else if (va.name.includes("^") && vb.name.includes("^")) {
-          assert(!vaConnections.has(vb));
-          vaConnections.set(vb, 0);
-        }
-      }
-      connections.set(va, vaConnections);
-    }
-
-    for (let i = 0; i < nSteps; i++) {
-      const targets = connections.entries().map(([va, vaConnections]) => [
-        va,
-        XYZ.scale(
-          1 / vaConnections.size,
-          vaConnections.entries().reduce(
-            (sum, [vb, len]) => XYZ.plus(sum, this.target(va, vb, len)),
-            XYZ.zero(),
-          ),
-        ),
-      ] as [Vertex, MV]).toArray();
-      const badness =
-        targets.reduce((sum, [v, target]) => sum + distance(pos(v), target), 0);
-      log(`badness[${i}] = ${badness}`);
-      for (const [v, pos] of targets) {
-        setPos(v, pos);
-      }
-      // TODO be less strict?
-      if (badness === 0) break;
+  function update(phaseData: PhaseData, options: ViewOptions, newPicking?: Picking) {
+    const {vertices, vertexNames, edges, triangles, peers} = phaseData;
+    const {
+      showVertices, showVertexNames, showEdges, showFaces, showPeers, showGrid,
+      showStarEdges, center,
+    } = options;
+    picking = newPicking;
+
+    const key = topologyKey(phaseData);
+    if (model?.key !== key) {
+      disposeModel();
+      model = createModel(phaseData, key);
     }
-
-    // Note: I tried gluing before contracting in the hope that it improves
-    // convergence, but it didn't.
-
-    this.gluePeers();
-    const tip = vertices.values().find(v => v.name.includes("^"));
-    assert(!!tip);
-    tip.name = tipName;
-  }
-
-  /** Where `vb` would like to place `va` so that the distance is `len` */
-  target(va: Vertex, vb: Vertex, len: number): MV {
-    const {pos} = this;
-    if (len === 0) return pos(vb); // just an optimization
-    const vec_ba = XYZ.minus(pos(va), pos(vb));
-    return XYZ.plus(pos(vb), XYZ.scale(len / (XYZ.norm(vec_ba) || 1), vec_ba));
-  }
-
-  gluePeers() {
-    const {boundary, peers} = this;
-    while (peers.size > 2) {
-      log(`peers left: ${peers.size}`);
-      const [he0, he1] = peers.entries().find(([he0, he1]) => he0.to === he1.from);
-      log(`gluing ${he0}, ${he1} at ${he0.to}`);
-      const [he2, he3] = this.splitLoop(he0.prev, he1, {create: "right"});
-      const mergedName = mergeNames(he2.to.name, he2.from.name);
-      this.contractEdge(he2);
-      he2.from.name = mergedName;
-      this.dropEdge(he0);
-      assert(peers.delete(he0));
-      assert(peers.delete(he1));
-    }
-    {
-      log("gluing last peers", ...boundary.halfEdges());
-      let he0 = boundary.firstHalfEdge;
-      let he1 = he0.next;
-      assert(peers.get(he0) === he1);
-      assert(peers.get(he1) === he0);
-      this.dropEdge(he0);
-      assert(peers.delete(he0));
-      assert(peers.delete(he1));
-      this.boundary = undefined;
+    root.position = center.negate();
+    grid.setEnabled(showGrid);
+
+    model.balls.forEach((ball, i) => {
+      const name = vertexNames[i];
+      const isPicked = picking?.picked.includes(name);
+      const isCandidate = picking?.candidates.includes(name);
+      ball.setEnabled(showVertices || Boolean(picking));
+      ball.position = vertices[i];
+      ball.scaling = V3.One().scaleInPlace(isPicked || isCandidate ? 5 / 3 : 1);
+      ball.material =
+        isPicked ? pickedMaterial :
+        isCandidate ? candidateMaterial :
+        name.includes("^") ? tipMaterial : innerMaterial;
+    });
+    for (const {index, labelPos, label} of model.labels) {
+      labelPos.position = v3(0, .2, 0).addInPlace(vertices[index]);
+      label.isVisible = showVertexNames;
     }
-  }
-
-  rotatePoints(pivot: MV, from: MV, to: MV, vertices: Set<Vertex>) {
-    const dir1 = XYZ.normalize(XYZ.minus(to, pivot));
-    const dir2 = XYZ.normalize(XYZ.minus(from, pivot));
-    const dirMid = XYZ.normalize(XYZ.plus(dir1, dir2));
-    const rot = XYZ.geometricProduct(dir1, dirMid);
-    const transformOffset = XYZ.sandwich(rot);
-    const transformPoint = (point: MV) =>
-      XYZ.plus(transformOffset(XYZ.minus(point, pivot)), pivot);
-    const angle = XYZ.getAngle(XYZ.minus(from, pivot), XYZ.minus(to, pivot));
-    log(`rotation around: ${pivot} from ${from} to ${to};\n  angle: ${(angle * 180 / Math.PI).toFixed(5)}° = ${angle}`);
-    for (const v of vertices) {
-      this.positions.set(v, transformPoint(this.positions.get(v)));
+    const updateTubes = (tubes: B.Mesh[], paths: V3[][], show: boolean) => {
+      tubes.forEach((tube, i) => {
+        tube.setEnabled(show);
+        if (show) B.MeshBuilder.CreateTube(tube.name, {path: paths[i], instance: tube});
+      });
+    };
+    updateTubes(model.edges, edges, showEdges);
+    updateTubes(model.peers, peers, showPeers);
+    updateTubes(model.starEdges, starEdgePaths(phaseData), showStarEdges);
+    model.faces?.setEnabled(showFaces);
+    if (showFaces && model.faces) {
+      // The normals depend on the positions and must be updated with them:
+      const positions = trianglePositions(triangles);
+      model.faces.updateVerticesData(B.VertexBuffer.PositionKind, positions, true);
+      model.faces.updateVerticesData(
+        B.VertexBuffer.NormalKind, triangleNormals(positions, triangleIndices(triangles)), true,
+      );
     }
   }
 
-  /**
-   * Would merging the two loops adjacent to `he` and its twin result
-   * in a flat loop?
-   */
-  isBetweenCoplanarLoops(he: HalfEdge): boolean {
-    assert(this.isLoopFlat(he.loop));
-    assert(this.isLoopFlat(he.twin.loop));
-    // Assuming that each of the two loops is already flat, we only need to
-    // check if they have the same normalized directed areas.
-    // If one of the loops is degenerated, the union is flat as well.
-    const a1 = this.directedArea(he.loop), a2 = this.directedArea(he.twin.loop);
-    const a1n = XYZ.norm(a1), a2n = XYZ.norm(a2);
-    return (
-      a1n < 1e-8 || a2n < 1e-8 ||
-      closeTo0(XYZ.minus(XYZ.scale(1/a1n, a1), XYZ.scale(1/a2n, a2)))
-    );
-  }
-
-  /**
-   * Find the (unique) face adjacent to all the given vertices.
-   */
-  findUniqueFace(p: Vertex, q: Vertex) {
-    const found = p.loops().filter(l =>
-      l !== this.boundary && l.vertices().some(v => v === q)
-    ).toArray();
-    if (found.length !== 1) fail(
-      `found ${found.length} faces with vertices ${p} and ${q}: {${found.join(" ")}}.`
-    );
-    return found[0];
-  }
-
-  distance = (from: Vertex, to: Vertex) => distance(this.pos(from), this.pos(to));
-
-  heLength = (he: HalfEdge) => this.distance(he.from, he.to);
+  const renderScene = () => scene.render()
+  engine.runRenderLoop(renderScene);
 
-  hePoint = (he: HalfEdge, lambda: number) =>
-    interpolate(this.pos(he.from), this.pos(he.to), lambda);
+  const resizeEngine = () => engine.resize();
+  window.addEventListener("resize", resizeEngine);
 
-  isLoopFlat(loop: Loop) {
-    // This is a bit too optimistic:  A non-flat loop with total area 0 will be
-    // reported as flat.
-    const a = this.directedArea(loop);
-    for (const {from, to} of loop.halfEdges()) {
-      if (!closeTo0(XYZ.wedgeProduct(a, XYZ.minus(this.pos(to), this.pos(from))))) {
-        return false;
-      }
-    }
-    return true;
+  function dispose() {
+    window.removeEventListener("resize", resizeEngine);
+    engine.stopRenderLoop(renderScene);
+    engine.dispose();
+    canvas.removeEventListener("wheel", noBubble);  
   }
-  
-  /**
-   * Return a vector
-   * - parallel to the plane of `he.loop` and
-   * - orthogonal to the direction of `he`.
-   * 
-   * (It does not matter if the result points from the half edge into the loop or
-   * in the opposite direction.  Consistent behavior suffices.)
-   */
-  faceOrientation = (he: HalfEdge) =>
-    XYZ.contractLeft(XYZ.minus(this.pos(he.to), this.pos(he.from)), this.directedArea(he.loop));
-  
-  directedArea = (loop: Loop) => loop.halfEdges().reduce(
-    (acc, {from, to}) => XYZ.plus(acc, XYZ.wedgeProduct(this.pos(from), this.pos(to))),
-    XYZ.zero(),
-  );
-}
 
-/**
- * Return the vertices reachable from start without crossing the border.
- */
-function collectVertices(start: Vertex, border: Set<Vertex>): Set<Vertex> {
-  log(`collecting from ${start} to`, ...border);
-  const collected = new Set<Vertex>();
-  function recur(v: Vertex) {
-    if (border.has(v) || collected.has(v)) return;
-    collected.add(v);
-    [...v.neighbors()].forEach(recur);
-  }
-  recur(start);
-  log(`collected: {${[...collected].join(", ")}}`);
-  return collected;
+  return {update, dispose};
 }
 
-const mergeNames = (a: string, b: string) => {
-  if (
-    (a.endsWith(".0") || a.endsWith(".1")) &&
-    (b.endsWith(".0") || b.endsWith(".1")) &&
-    a.slice(0, -2) === b.slice(0, -2) &&
-    a !== b
-  ) {
-    return a.slice(0, -2);
-  }
-
-  {
-    const i = b.indexOf("^");
-    if (i !== -1 && a.endsWith("^" + b.slice(0, i))) {
-      return a + b.slice(i);
-    }
-  }
-  {
-    const i = a.indexOf("^");
-    if (i !== -1 && b.endsWith("^" + a.slice(0, i))) {
-      return b + a.slice(i);
-    }
-  }
+/** The centroid of the given points (the origin if there are none) */
+const centroid = (points: V3[]) =>
+  points.length === 0 ? V3.Zero() :
+  points.reduce((acc, v) => acc.addInPlace(v), V3.Zero()).scaleInPlace(1 / points.length);
 
-  return `${a}+${b}`;
-}
+render(<App />, document.getElementById('app'));
@@ -0,0 +1,255 @@
+import { fail } from './utils';
+import { XYZ } from './geom-utils';
+import triangulate from './triangulate';
+
+/*
+Intrinsic triangulations of closed flat surfaces with cone points,
+such as the star with its peer edges glued together.
+
+Such a triangulation is given by its half-edges.  The half-edges `3 * t`,
+`3 * t + 1`, and `3 * t + 2` form triangle `t` in counterclockwise order.
+For each half-edge we store its origin vertex, its twin, and the length of
+its edge.  Edges are geodesics, that is, straight lines if the adjacent
+triangles are unfolded into the plane.  Unlike in a `Mesh`, loops and
+parallel edges are allowed.
+
+An edge flip replaces an edge (the diagonal of the quadrilateral formed by the
+two adjacent triangles) with the other diagonal of the quadrilateral.
+The length of the new edge is computed by unfolding the two triangles.
+
+We also keep track of the edges that are line segments between polygon
+corners.  In the star these can be created with `bend` directly, whereas
+other edges require `reattach` operations first.  Flipping an edge between
+two triangles of the original polygon (not crossing a glued edge) yields
+again such a segment.
+*/
+
+export type IntrinsicVertex = {
+  name: string,
+  /** Indices of the polygon corners glued together to form this vertex */
+  corners: number[],
+};
+
+export type IntrinsicEdge = {
+  from: string,
+  to: string,
+  length: number,
+  /** The polygon corners if the edge is a line segment in the polygon */
+  segment?: [string, string],
+};
+
+const tolerance = 1e-9;
+/** Tolerance for the cosine of angles 0 and 180° */
+const degenerateTolerance = 1e-12;
+
+export class IntrinsicTriangulation {
+  origin: number[] = [];
+  twin: number[] = [];
+  length: number[] = [];
+  /**
+   * The polygon corner at the origin of each half-edge
+   * (or -1 if the triangle is not a triangle in the polygon)
+   */
+  corner: number[] = [];
+  /** The polygon corners if the edge is a line segment in the polygon */
+  segment: ([number, number] | undefined)[] = [];
+
+  constructor(
+    readonly vertices: IntrinsicVertex[],
+    readonly cornerNames: string[],
+  ) {}
+
+  /**
+   * Triangulate a polygon (given by its corners in counterclockwise order)
+   * whose edges are glued together in pairs:
+   * Edge `i` (from corner `i` to corner `i+1`) is glued to edge `glue[i]`
+   * with opposite orientation.
+   *
+   * Glued corners become a single vertex.  Its name consists of the names of
+   * its corners, separated by "+".
+   */
+  static fromGluedPolygon(
+    points: [number, number][], names: string[], glue: number[],
+  ): IntrinsicTriangulation {
+    const n = points.length;
+    if (n < 3) fail(`cannot triangulate a polygon with ${n} corners`);
+
+    // Union-find for the corners:
+    const parent = points.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : parent[i] = find(parent[i]);
+    glue.forEach((j, i) => {
+      if (glue[j] !== i) fail(`edge ${i} is glued to ${j}, but not vice versa`);
+      parent[find(i)] = find((j + 1) % n);
+      parent[find((i + 1) % n)] = find(j);
+    });
+    const vertexIdx = new Map<number, number>();
+    const vertices: IntrinsicVertex[] = [];
+    points.forEach((_, i) => {
+      const root = find(i);
+      if (!vertexIdx.has(root)) {
+        vertexIdx.set(root, vertices.length);
+        vertices.push({name: "", corners: []});
+      }
+      vertices[vertexIdx.get(root)].corners.push(i);
+    });
+    for (const v of vertices) v.name = v.corners.map(i => names[i]).join("+");
+
+    const result = new IntrinsicTriangulation(vertices, names);
+    const mvs = points.map(([x, y]) => XYZ.vec([x, y, 0]));
+    const cornerIdx = new Map(mvs.map((mv, i) => [mv, i]));
+    /** half-edge index by "from,to" corner indices */
+    const byCorners = new Map<string, number>();
+    for (const triangle of triangulate(mvs)) {
+      const corners = triangle.map(mv => cornerIdx.get(mv));
+      corners.forEach((p, k) => {
+        const q = corners[(k + 1) % 3];
+        byCorners.set(`${p},${q}`, result.origin.length);
+        result.origin.push(vertexIdx.get(find(p)));
+        result.corner.push(p);
+        result.segment.push([p, q]);
+        result.length.push(Math.hypot(points[q][0] - points[p][0], points[q][1] - points[p][1]));
+      });
+    }
+    byCorners.forEach((h, key) => {
+      const [p, q] = key.split(",").map(Number);
+      // A diagonal or a polygon edge:
+      const twin = q === (p + 1) % n
+        ? byCorners.get(`${glue[p]},${(glue[p] + 1) % n}`)
+        : byCorners.get(`${q},${p}`);
+      if (twin === undefined) fail(`no twin for polygon corners ${p} and ${q}`);
+      if (Math.abs(result.length[h] - result.length[twin]) > tolerance) fail(
+        `glued edges have different lengths: ${result.length[h]} and ${result.length[twin]}`
+      );
+      result.twin[h] = twin;
+    });
+    return result;
+  }
+
+  next(h: number) { return h - h % 3 + (h + 1) % 3; }
+  prev(h: number) { return h - h % 3 + (h + 2) % 3; }
+
+  /** The edges, each represented by one of its half-edges */
+  edges(): number[] {
+    return this.origin.keys().filter(h => h < this.twin[h]).toArray();
+  }
+
+  /** Descriptions of the given edges (by default all edges) */
+  edgeList(edges = this.edges()): IntrinsicEdge[] {
+    const {vertices, origin, twin, length, segment, cornerNames} = this;
+    return edges.map(h => ({
+      from: vertices[origin[h]].name,
+      to: vertices[origin[twin[h]]].name,
+      length: length[h],
+      ...segment[h] && {
+        segment: segment[h].map(i => cornerNames[i]) as [string, string],
+      },
+    }));
+  }
+
+  /** The triangles, each given by its three half-edges */
+  triangles(): [number, number, number][] {
+    return Array.from({length: this.origin.length / 3}, (_, t) => [3 * t, 3 * t + 1, 3 * t + 2]);
+  }
+
+  /** The angle of the triangle of `h` at the origin of `h` */
+  angle(h: number) {
+    const a = this.length[h], b = this.length[this.prev(h)], c = this.length[this.next(h)];
+    const cos = (a * a + b * b - c * c) / (2 * a * b);
+    // Rounding errors in the cosine would make the angles of degenerate
+    // triangles (with collinear polygon corners) about 1e-8 instead of 0.
+    return (
+      cos > 1 - degenerateTolerance ? 0 :
+      cos < -1 + degenerateTolerance ? Math.PI :
+      Math.acos(cos)
+    );
+  }
+
+  /** The angle opposite to `h` in its triangle */
+  oppositeAngle(h: number) {
+    return this.angle(this.prev(h));
+  }
+
+  /**
+   * An edge is (locally) Delaunay if the angles opposite to it
+   * sum up to at most 180°.
+   */
+  isDelaunay(h: number) {
+    return this.oppositeAngle(h) + this.oppositeAngle(this.twin[h]) <= Math.PI + tolerance;
+  }
+
+  /**
+   * An edge can be flipped if the two adjacent triangles are different and
+   * form a (strictly) convex quadrilateral.
+   */
+  isFlippable(h: number) {
+    const g = this.twin[h];
+    return (
+      Math.floor(h / 3) !== Math.floor(g / 3) &&
+      this.angle(h) + this.angle(this.next(g)) < Math.PI - tolerance &&
+      this.angle(g) + this.angle(this.next(h)) < Math.PI - tolerance
+    );
+  }
+
+  /**
+   * Flip the edge of `h`.  Afterwards `h` and its twin represent the new edge.
+   * (The other half-edges of the two triangles are re-arranged.)
+   */
+  flip(h: number) {
+    if (!this.isFlippable(h)) fail(`edge ${this.edgeName(h)} cannot be flipped`);
+    const {origin, twin, length, corner, segment} = this;
+    const g = twin[h];
+    const h1 = this.next(h), h2 = this.prev(h), g1 = this.next(g), g2 = this.prev(g);
+    // Are both triangles in the polygon and adjacent there?
+    const inPolygon = corner[h] >= 0 && corner[g] >= 0 && corner[h] === corner[g1] && corner[g] === corner[h1];
+    const [newCornerH, newCornerG] = [corner[g2], corner[h2]];
+
+    // Unfold the triangles with origin[h] at (0, 0) and origin[g] at (length, 0):
+    const alpha1 = this.angle(h), alpha2 = this.angle(g1);
+    const c = [length[h2] * Math.cos(alpha1), length[h2] * Math.sin(alpha1)];
+    const d = [length[g1] * Math.cos(alpha2), -length[g1] * Math.sin(alpha2)];
+    const newLength = Math.hypot(c[0] - d[0], c[1] - d[1]);
+    const [newOriginH, newOriginG] = [origin[g2], origin[h2]];
+
+    // [old slot, new slot] for the outer half-edges:
+    const moves: [number, number][] = [[h2, h1], [g1, h2], [g2, g1], [h1, g2]];
+    const data = new Map(moves.map(([from]) =>
+      [from, {o: origin[from], t: twin[from], l: length[from], c: corner[from], s: segment[from]}]
+    ));
+    const newSlot = new Map(moves);
+    for (const [from, to] of moves) {
+      const {o, t, l, c, s} = data.get(from);
+      origin[to] = o;
+      twin[to] = newSlot.get(t) ?? t;
+      length[to] = l;
+      corner[to] = inPolygon ? c : -1;
+      segment[to] = s;
+    }
+    for (const [, to] of moves) twin[twin[to]] = to;
+
+    origin[h] = newOriginH;
+    origin[g] = newOriginG;
+    length[h] = length[g] = newLength;
+    corner[h] = inPolygon ? newCornerH : -1;
+    corner[g] = inPolygon ? newCornerG : -1;
+    segment[h] = inPolygon ? [newCornerH, newCornerG] : undefined;
+    segment[g] = inPolygon ? [newCornerG, newCornerH] : undefined;
+  }
+
+  /** Flip edges until all edges are Delaunay.  Returns the number of flips. */
+  makeDelaunay() {
+    let flips = 0;
+    const queue = this.edges();
+    while (queue.length > 0) {
+      const h = queue.pop();
+      if (this.isDelaunay(h)) continue;
+      if (++flips > 100 * this.origin.length) fail(`too many flips for a Delaunay triangulation`);
+      this.flip(h);
+      queue.push(this.next(h), this.prev(h), this.next(this.twin[h]), this.prev(this.twin[h]));
+    }
+    return flips;
+  }
+
+  edgeName(h: number) {
+    return `${this.vertices[this.origin[h]].name}-${this.vertices[this.origin[this.twin[h]]].name}`;
+  }
+}
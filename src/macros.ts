@@ -0,0 +1,282 @@
+import { ParseError } from './errors';
+import { cmdNames } from './folding';
+import { constants, evaluate, functions, parseExpression } from './expressions';
+
+/*
+Macros and loops in the transform language.  They are expanded into plain
+command lines before any command is executed:
+
+  macro steps P Q R S
+    bend .5 P.1 R.0
+    bend .5 Q R.0
+    bend .5 Q S
+  end
+  steps a b c d
+
+  for (P,Q,R,S) in (a,b,c,d) (c,d,e,f) (e,f,g,h)
+    steps P Q R S
+  end
+
+  for T in b d f h
+    bend .5 k T
+  end
+
+  let angle = 180deg - dihedral_icosahedron
+  bend angle k.1 c
+
+In the body of a macro or loop each parameter is replaced by the
+corresponding argument wherever it occurs as a word.  (So `P.1` becomes
+`a.1` if `P` is bound to `a`.)  A macro must be defined before it is used.
+Macro definitions and loops can be nested.
+
+`let` evaluates a numeric expression (see `expressions.ts`).  In the
+subsequent lines the variable is replaced by its value where a number is
+expected:  in the angle expression of `bend`, in the iteration count of
+`contract`, and in the expressions of further `let`s.  (So a variable
+named like a vertex does not affect vertex arguments.  And a variable is
+shadowed by a macro or loop parameter of the same name.)  The generated
+lines contain plain numbers.
+
+Each generated line keeps the number of the source line it comes from and
+the chain of macro calls and loop iterations that produced it.
+*/
+
+/** A command line generated by the expansion */
+export type ScriptLine = {
+  command: string,
+  /** The (1-based) number of the source line containing the command */
+  line: number,
+  /**
+   * The (1-based) number of the first source line of the top-level
+   * statement (command, macro call, or loop) producing the command
+   */
+  statement: number,
+  /**
+   * The macro calls and loop iterations leading to the command,
+   * innermost first (e.g., `["steps a b c d (line 7)", "P=a Q=b (line 6)"]`)
+   */
+  via: string[],
+};
+
+type Macro = {params: string[], body: SourceLine[]};
+
+type SourceLine = {text: string, line: number};
+
+const keywords = ["macro", "for", "in", "end", "let"];
+
+/** Nested macro calls beyond this depth are considered infinite recursion. */
+const maxDepth = 100;
+
+const isIdentifier = (name: string) => /^[A-Za-z_]\w*$/.test(name);
+
+/** Fail with a message mentioning the source line, blaming `token` if given */
+function syntaxError(line: number, message: string, token?: string): never {
+  throw new ParseError(`line ${line}: ${message}`, token, undefined, line);
+}
+
+/** Split a parenthesized, comma-separated list like `(a, c.1, e)` */
+function tuple(text: string, line: number) {
+  const match = /^\((.*)\)$/.exec(text.trim()) ?? syntaxError(
+    line, `expected a parenthesized list instead of "${text}"`, text.trim(),
+  );
+  return match[1].split(",").map(item => item.trim());
+}
+
+/** Replace each name occurring as a word in `text` by its value. */
+function substitute(text: string, values: Map<string, string>) {
+  if (values.size === 0) return text;
+  const pattern = new RegExp(`(?<!\\w)(${[...values.keys()].join("|")})(?!\\w)`, "g");
+  return text.replace(pattern, name => values.get(name));
+}
+
+/**
+ * Replace the variables in the numeric arguments of a command line
+ * (the angle expression of `bend` and the iteration count of `contract`)
+ * by their values.
+ */
+function substituteVariables(text: string, variables: Map<string, number>) {
+  if (variables.size === 0) return text;
+  // Parenthesize negative values so that, e.g., `x^2` keeps its meaning:
+  const values = new Map([...variables].map(([name, value]) => [name, value < 0 ? `(${value})` : `${value}`]));
+  const [word] = text.split(/\s/);
+  switch (word) {
+    case "bend": {
+      const args = text.slice(word.length);
+      // Up to the end of the angle expression (or up to an error in it,
+      // which will be reported when the command is parsed):
+      let end: number;
+      try {
+        end = args.length - parseExpression(args, variables).rest.length;
+      } catch (e) {
+        if (!(e instanceof ParseError)) throw e;
+        end = e.offset ?? 0;
+      }
+      return word + substitute(args.slice(0, end), values) + args.slice(end);
+    }
+    case "contract":
+      return text.replace(/^(contract\s+)(\S+)/, (match, prefix, arg) =>
+        values.has(arg) ? prefix + values.get(arg) : match
+      );
+    default:
+      return text;
+  }
+}
+
+/**
+ * Returns the index of the `end` line closing the block starting at
+ * `lines[start]`.
+ */
+function blockEnd(lines: SourceLine[], start: number) {
+  let depth = 0;
+  for (let i = start; i < lines.length; i++) {
+    const [word] = lines[i].text.split(/\s+/);
+    if (word === "macro" || word === "for") depth++;
+    else if (word === "end" && --depth === 0) return i;
+  }
+  const {text, line} = lines[start];
+  syntaxError(line, `"${text}" has no matching "end"`, text.split(/\s+/)[0]);
+}
+
+function checkParams(params: string[], line: number) {
+  for (const param of params) {
+    if (!isIdentifier(param) || keywords.includes(param)) syntaxError(
+      line, `invalid parameter name "${param}"`, param,
+    );
+  }
+  if (new Set(params).size !== params.length) syntaxError(line, `duplicate parameter names`);
+}
+
+/**
+ * Expand the macros and loops in a transform text (see above).
+ *
+ * Like `getLines(...)`, empty lines and lines starting with `//` are skipped.
+ * Invalid macro or loop syntax makes this function fail with a `ParseError`
+ * mentioning the source line.
+ */
+export function expandScript(text: string): ScriptLine[] {
+  const source: SourceLine[] = text.split(/\n|\r\n?/).flatMap((text, i) => {
+    text = text.trim();
+    return text === "" || text.startsWith("//") ? [] : [{text, line: i + 1}];
+  });
+  const macros = new Map<string, Macro>();
+  /** The values of the `let` variables */
+  const variables = new Map<string, number>();
+  const result: ScriptLine[] = [];
+
+  function expand(lines: SourceLine[], binding: Map<string, string>, via: string[], statement?: number) {
+    if (via.length > maxDepth) syntaxError(
+      lines[0]?.line, `macros nested too deeply (recursive macro?)`,
+    );
+    for (let i = 0; i < lines.length; i++) {
+      const {text: raw, line} = lines[i];
+      const top = statement ?? line;
+      const [word] = raw.split(/\s+/);
+      switch (word) {
+        case "macro": {
+          const end = blockEnd(lines, i);
+          const [, name, ...params] = raw.split(/\s+/);
+          if (name === undefined || !isIdentifier(name)) syntaxError(line, `macro name expected`, name);
+          if (keywords.includes(name) || (cmdNames as string[]).includes(name)) syntaxError(
+            line, `"${name}" cannot be used as a macro name`, name,
+          );
+          checkParams(params, line);
+          macros.set(name, {params, body: lines.slice(i + 1, end)});
+          i = end;
+          break;
+        }
+        case "for": {
+          const end = blockEnd(lines, i);
+          const match = /^for\s+(\(.*?\)|\S+)\s+in\s+(.*)$/.exec(raw) ?? syntaxError(
+            line, `expected "for <parameters> in <values>"`,
+          );
+          const [, paramsText] = match;
+          // Values may refer to parameters of enclosing macros and loops:
+          const valuesText = substitute(match[2], binding);
+          const tupled = paramsText.startsWith("(");
+          const params = tupled ? tuple(paramsText, line) : [paramsText];
+          checkParams(params, line);
+          const valueLists = tupled
+            ? (valuesText.match(/\([^)]*\)|[^\s(]+/g) ?? []).map(t => tuple(t, line))
+            : valuesText.split(/\s+/).map(value => [value]);
+          for (const values of valueLists) {
+            if (values.length !== params.length) syntaxError(
+              line, `${values.length} values (${values.join()}) for ${params.length} parameters`,
+            );
+            const inner = new Map(binding);
+            params.forEach((param, k) => inner.set(param, values[k]));
+            const iteration = params.map((param, k) => `${param}=${values[k]}`).join(" ");
+            expand(lines.slice(i + 1, end), inner, [`${iteration} (line ${line})`, ...via], top);
+          }
+          i = end;
+          break;
+        }
+        case "let": {
+          const match = /^let\s+(\S+)\s*=\s*(.+)$/.exec(raw) ?? syntaxError(
+            line, `expected "let <name> = <expression>"`,
+          );
+          const [, name, expression] = match;
+          if (
+            !isIdentifier(name) || keywords.includes(name) ||
+            Object.hasOwn(constants, name) || Object.hasOwn(functions, name)
+          ) syntaxError(line, `"${name}" cannot be used as a variable name`, name);
+          try {
+            variables.set(name, evaluate(substitute(expression, binding), variables));
+          } catch (e) {
+            syntaxError(line, e.message, e.token);
+          }
+          break;
+        }
+        case "end":
+          syntaxError(line, `"end" without "macro" or "for"`, "end");
+        default: {
+          const text = substitute(raw, binding);
+          const [word, ...args] = text.split(/\s+/);
+          const macro = macros.get(word);
+          if (!macro) {
+            result.push({command: substituteVariables(text, variables), line, statement: top, via});
+            break;
+          }
+          if (args.length !== macro.params.length) syntaxError(
+            line, `macro ${word} expects ${macro.params.length} args but got ${args.length}`, word,
+          );
+          // Parameters of enclosing macros and loops are not visible in the body:
+          const inner = new Map(macro.params.map((param, k) => [param, args[k]]));
+          expand(macro.body, inner, [`${text} (line ${line})`, ...via], top);
+        }
+      }
+    }
+  }
+
+  expand(source, new Map(), []);
+  return result;
+}
+
+/** The plain command lines resulting from `expandScript(text)` */
+export const commandLines = (text: string) => expandScript(text).map(({command}) => command);
+
+/**
+ * A human-readable description of where a generated line comes from,
+ * e.g., `line 3 in steps a b c d (line 7), P=a Q=b (line 6)`
+ */
+export const describeOrigin = ({line, via}: ScriptLine) =>
+  [`line ${line}`, ...via.length > 0 ? [`in ${via.join(", ")}`] : []].join(" ");
+
+/**
+ * The range of source lines (0-based, `end` exclusive) forming the last
+ * top-level statement (a command, a macro call, a macro definition,
+ * or a loop)
+ */
+export function lastStatement(text: string): {start: number, end: number} | undefined {
+  const lines = text.split(/\n|\r\n?/);
+  let depth = 0, end: number | undefined;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (line === "" || line.startsWith("//")) continue;
+    end ??= i + 1;
+    const [word] = line.split(/\s+/);
+    if (word === "end") depth++;
+    else if (word === "macro" || word === "for") depth--;
+    if (depth <= 0) return {start: i, end};
+  }
+  return undefined;
+}
@@ -112,6 +112,15 @@ export class Loop extends Named {
   toString() { return `l${this.id}/${this.name}`; }
 }
 
+/** See `Mesh.saveState()` */
+export type MeshState = {
+  vertices: {v: Vertex, name: string, firstHalfEdgeOut: HalfEdge}[],
+  loops: {l: Loop, name: string, firstHalfEdge: HalfEdge}[],
+  halfEdges: {
+    he: HalfEdge, loop: Loop, prev: HalfEdge, twin: HalfEdge, next: HalfEdge, to: Vertex,
+  }[],
+};
+
 export class Mesh {
   vertices = new Set<Vertex>();
   loops = new Set<Loop>();
@@ -221,8 +230,12 @@ export class Mesh {
     while (he !== he0) { he.to = v1; he = he.twin.prev; }
 
     const newEdge = this.makeEdge(he0.loop, he1.loop, v0, v1);
-    chainHEs(he0, newEdge[0], he0.next);
-    chainHEs(he1, newEdge[1], he1.next);
+    if (he0 === he1) { // edge case: v1 only gets the new edge
+      chainHEs(he0, newEdge[0], newEdge[1], he0.next);
+    } else { // normal case:
+      chainHEs(he0, newEdge[0], he0.next);
+      chainHEs(he1, newEdge[1], he1.next);
+    }
     return newEdge;
   }
 
@@ -342,6 +355,9 @@ export class Mesh {
     if (loop === twin_loop) this.fail(
       `cannot drop edge adjacent to the same loop twice`
     );
+    if (next === he && twin_next === he.twin) this.fail(
+      `cannot drop edge between two 1-gons`
+    );
     this.log("dropEdge:", loop, he, next)
 
     let count = 0;
@@ -351,12 +367,21 @@ export class Mesh {
       heAux.loop = twin_loop;
     }
 
-    chainHEs(twin_prev, next);
-    chainHEs(prev, twin_next);
+    // If one of the loops is a 1-gon, the edge is a self-loop (from === to)
+    // and the remaining half-edges of the other loop just need to be closed.
+    if (next === he) {
+      chainHEs(twin_prev, twin_next);
+    } else if (twin_next === he.twin) {
+      chainHEs(prev, next);
+    } else {
+      chainHEs(twin_prev, next);
+      chainHEs(prev, twin_next);
+    }
 
-    from.firstHalfEdgeOut = twin_next;
-    to.firstHalfEdgeOut = next
-    twin_loop.firstHalfEdge = twin_next;
+    const first = twin_next === he.twin ? next : twin_next;
+    from.firstHalfEdgeOut = first;
+    to.firstHalfEdgeOut = next === he ? first : next;
+    twin_loop.firstHalfEdge = first;
 
     this.loops.delete(loop); 
     he.alive = false;
@@ -365,6 +390,43 @@ export class Mesh {
     return twin_loop;
   }
 
+  /**
+   * Capture the current state of the mesh so that it can be re-established
+   * later with `restoreState(...)`.
+   * 
+   * Mesh elements are never re-inserted after they have been removed from
+   * the mesh.  So it suffices to remember the current field values of the
+   * live elements.  Elements created after saving the state will simply
+   * become unreachable when the state is restored.
+   */
+  saveState(): MeshState {
+    return {
+      vertices: [...this.vertices].map(v => ({
+        v, name: v.name, firstHalfEdgeOut: v.firstHalfEdgeOut,
+      })),
+      loops: [...this.loops].map(l => ({
+        l, name: l.name, firstHalfEdge: l.firstHalfEdge,
+      })),
+      halfEdges: [...this.loops].flatMap(l => [...l.halfEdges()]).map(he => ({
+        he, loop: he.loop, prev: he.prev, twin: he.twin, next: he.next, to: he.to,
+      })),
+    };
+  }
+
+  restoreState(state: MeshState) {
+    this.vertices = new Set(state.vertices.map(({v, name, firstHalfEdgeOut}) => {
+      Object.assign(v, {name, firstHalfEdgeOut});
+      return v;
+    }));
+    this.loops = new Set(state.loops.map(({l, name, firstHalfEdge}) => {
+      Object.assign(l, {name, firstHalfEdge});
+      return l;
+    }));
+    for (const {he, loop, prev, twin, next, to} of state.halfEdges) {
+      Object.assign(he, {loop, prev, twin, next, to, alive: true});
+    }
+  }
+
   check() {
     const {vertices, loops, fail} = this;
 
@@ -0,0 +1,510 @@
+import { fail } from './utils';
+import { createFolding, parseCommand, Snapshot } from './folding';
+import { expandScript } from './macros';
+import { cross, dot, norm, sub, Vec3 } from './solver';
+
+/*
+A printable cut-and-fold net (as SVG) for a folding script:
+
+- The outline of the flat star (as created by the setup) is drawn as a cut
+  line.  Each tip is labeled with the name of the setup line that created it
+  and its two outline edges (the initial peers) get that label, too.
+  One edge of each such pair gets a glue tab.
+- Each edge introduced by `bend` or `bend2` is drawn as a crease:
+  as a mountain fold (red, dash-dotted) or as a valley fold (blue, dashed),
+  as seen from the printed side (the side of the star facing +z).
+- Each `reattach` cut is drawn as a cut line.
+- Vertices are labeled with their names from the setup.
+
+The net is derived by re-running the script while keeping track of the
+paper:  The star is divided into rigid pieces (polygons in star coordinates),
+each with a frame mapping it to its current place in 3D.
+- A new edge is mapped back to star coordinates in each piece whose plane
+  contains the edge.  (An edge crossing a glued seam of the star does not
+  correspond to a single straight line in the star.  It is mapped piecewise.)
+  The affected pieces are split along the edge.
+- After each command the frame of each piece is re-computed from the new
+  positions of its corners.  The mesh vertex at a corner is identified by
+  name.  (Vertices merged by folding operations have merged names.  So there
+  may be several candidates, of which we take those that keep the distances
+  between the corners.  The tip renamed by `contract` stands for all the
+  star vertices merged into it.)  The positions of other corners are
+  interpolated along the crease or cut they are on.
+*/
+
+type Vec2 = [number, number];
+
+type Line = {kind: "mountain" | "valley" | "cut", from: Vec2, to: Vec2};
+
+/** Maps star coordinates `[x, y]` to `origin + x * u + y * w` */
+type Frame = {origin: Vec3, u: Vec3, w: Vec3};
+
+/**
+ * A corner of a piece.  `name` is set if the corner is a star vertex.
+ * Other corners are on a crease or cut.  For these, `on` gives the star
+ * vertices that may have been merged into the end vertices of the crease
+ * (see `starNames(...)`), the crease length, and the relative position.
+ */
+type Corner = {
+  p: Vec2,
+  name?: string,
+  on?: {from: string[], to: string[], length: number, t: number},
+};
+
+type Candidate = {name?: string, pos: Vec3};
+
+type Piece = {corners: Corner[], frame: Frame};
+
+const tolerance = 1e-6;
+/** Tolerance for comparing distances in 3D (which might be affected by `contract`) */
+const tolerance3D = 1e-4;
+
+const dist2 = (p: Vec2, q: Vec2) => Math.hypot(p[0] - q[0], p[1] - q[1]);
+const lerp2 = (p: Vec2, q: Vec2, t: number): Vec2 =>
+  [p[0] + (q[0] - p[0]) * t, p[1] + (q[1] - p[1]) * t];
+const cross2 = (a: Vec2, b: Vec2) => a[0] * b[1] - a[1] * b[0];
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale3 = (f: number, a: Vec3): Vec3 => [f * a[0], f * a[1], f * a[2]];
+const normalize = (a: Vec3) => scale3(1 / norm(a), a);
+
+const toFrame = ({origin, u, w}: Frame, [x, y]: Vec2) =>
+  add(origin, add(scale3(x, u), scale3(y, w)));
+const fromFrame = ({origin, u, w}: Frame, p: Vec3): Vec2 =>
+  [dot(sub(p, origin), u), dot(sub(p, origin), w)];
+const distanceToPlane = ({origin, u, w}: Frame, p: Vec3) =>
+  Math.abs(dot(sub(p, origin), cross(u, w)));
+
+/**
+ * The frame mapping `c0` to `p0` and `c1` to `p1`, where `normal` is the
+ * normal of the front side in 3D.
+ */
+function frameFrom2(c0: Vec2, p0: Vec3, c1: Vec2, p1: Vec3, normal: Vec3): Frame {
+  const len = dist2(c0, c1);
+  const d: Vec2 = [(c1[0] - c0[0]) / len, (c1[1] - c0[1]) / len];
+  const u3 = normalize(sub(p1, p0));
+  const w3 = cross(normalize(normal), u3);
+  // Star axes expressed in 3D:
+  const u = add(scale3(d[0], u3), scale3(-d[1], w3));
+  const w = add(scale3(d[1], u3), scale3(d[0], w3));
+  return {origin: sub(p0, add(scale3(c0[0], u), scale3(c0[1], w))), u, w};
+}
+
+/** The frame mapping the (non-collinear) corners `c0`, `c1`, `c2` to `p0`, `p1`, `p2` */
+function frameFrom3(c0: Vec2, p0: Vec3, c1: Vec2, p1: Vec3, c2: Vec2, p2: Vec3): Frame {
+  const normal = cross(sub(p1, p0), sub(p2, p0));
+  // Flip if the 3D triangle has the opposite orientation of the star triangle
+  // (which can only be meant as seen from the back side):
+  const sign = Math.sign(cross2(
+    [c1[0] - c0[0], c1[1] - c0[1]], [c2[0] - c0[0], c2[1] - c0[1]],
+  ));
+  return frameFrom2(c0, p0, c1, p1, scale3(sign, normal));
+}
+
+/** Do the distances between the points in the star and in 3D match? */
+const fits = (c0: Vec2, p0: Vec3, c1: Vec2, p1: Vec3) =>
+  Math.abs(Math.hypot(...sub(p0, p1)) - dist2(c0, c1)) < tolerance3D;
+
+/** Is `p` strictly inside `polygon` (and not close to its outline)? */
+function isInside(p: Vec2, polygon: Vec2[]) {
+  let inside = false;
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    if ((a[1] > p[1]) !== (b[1] > p[1])) {
+      const x = a[0] + (p[1] - a[1]) / (b[1] - a[1]) * (b[0] - a[0]);
+      if (x > p[0]) inside = !inside;
+    }
+  });
+  return inside && polygon.every((a, i) =>
+    distanceToSegment(p, a, polygon[(i + 1) % polygon.length]) > tolerance
+  );
+}
+
+function distanceToSegment(p: Vec2, a: Vec2, b: Vec2) {
+  const l2 = dist2(a, b) ** 2;
+  const t = l2 === 0 ? 0 :
+    Math.max(0, Math.min(1, ((p[0] - a[0]) * (b[0] - a[0]) + (p[1] - a[1]) * (b[1] - a[1])) / l2));
+  return dist2(p, lerp2(a, b, t));
+}
+
+/** The parts of segment `ab` inside the polygon, as pairs of end points */
+function clipSegment(a: Vec2, b: Vec2, polygon: Vec2[]): [Vec2, Vec2][] {
+  const ab: Vec2 = [b[0] - a[0], b[1] - a[1]];
+  const params = [0, 1];
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    const pq: Vec2 = [q[0] - p[0], q[1] - p[1]];
+    const denom = cross2(ab, pq);
+    if (Math.abs(denom) < tolerance) return; // parallel
+    const ap: Vec2 = [p[0] - a[0], p[1] - a[1]];
+    const t = cross2(ap, pq) / denom;
+    const s = cross2(ap, ab) / denom;
+    if (t > 0 && t < 1 && s > -tolerance && s < 1 + tolerance) params.push(t);
+  });
+  params.sort((x, y) => x - y);
+  const result: [Vec2, Vec2][] = [];
+  for (let i = 0; i + 1 < params.length; i++) {
+    const [t0, t1] = [params[i], params[i + 1]];
+    if ((t1 - t0) * norm([...ab, 0]) < tolerance) continue;
+    if (isInside(lerp2(a, b, (t0 + t1) / 2), polygon)) {
+      result.push([lerp2(a, b, t0), lerp2(a, b, t1)]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Split the piece along the chord from `a` to `b` (which are on its outline).
+ * Returns the two parts.
+ */
+function splitPiece(
+  {corners, frame}: Piece, a: Vec2, b: Vec2, cornerAt: (p: Vec2) => Corner,
+): [Piece, Piece] {
+  const insert = (p: Vec2) => {
+    const found = corners.findIndex(c => dist2(c.p, p) < tolerance);
+    if (found >= 0) return;
+    const i = corners.findIndex((c, i) =>
+      distanceToSegment(p, c.p, corners[(i + 1) % corners.length].p) < tolerance
+    );
+    if (i < 0) fail(`net: split point not on the outline of a piece`);
+    corners = [...corners.slice(0, i + 1), cornerAt(p), ...corners.slice(i + 1)];
+  };
+  insert(a);
+  insert(b);
+  const ia = corners.findIndex(c => dist2(c.p, a) < tolerance);
+  const ib = corners.findIndex(c => dist2(c.p, b) < tolerance);
+  const [i0, i1] = ia < ib ? [ia, ib] : [ib, ia];
+  return [
+    {corners: corners.slice(i0, i1 + 1), frame},
+    {corners: [...corners.slice(i1), ...corners.slice(0, i0 + 1)], frame},
+  ];
+}
+
+/**
+ * Names of star vertices that may have been merged into the vertex
+ * with the given name.  See `mergeNames(...)` and `reattach(...)` in MyMesh.
+ */
+function starNames(name: string, star: Map<string, Vec2>) {
+  const result = new Set<string>();
+  for (const part of name.split("+")) {
+    const tokens = part.split("^").map(t => t.replace(/(\.[01])+$/, ""));
+    const base = tokens.join("^");
+    if (star.has(base)) result.add(base);
+    for (let i = 0; i + 1 < tokens.length; i++) {
+      const tip = `${tokens[i]}^${tokens[i + 1]}`;
+      if (star.has(tip)) result.add(tip);
+    }
+  }
+  return [...result];
+}
+
+/** Newell's method; not normalized */
+function faceNormal(points: Vec3[]): Vec3 {
+  return points.reduce((n, p, i) => add(n, cross(p, points[(i + 1) % points.length])), [0, 0, 0]);
+}
+
+/**
+ * Re-compute the frame of a piece for a new state of the mesh.
+ * Returns `undefined` if this is not possible.
+ */
+function updateFrame(
+  {corners}: Piece,
+  snapshot: Snapshot,
+  candidatesOf: (corner: Corner) => Candidate[],
+  frontSign: number,
+): Frame | undefined {
+  const named = corners.flatMap(corner => {
+    const options = candidatesOf(corner);
+    return options.length > 0 ? [{p: corner.p, options}] : [];
+  });
+
+  // The frame that is consistent with the largest number of corners:
+  let best: {frame: Frame, score: number} | undefined;
+  const consider = (frame: Frame) => {
+    const score = named.filter(({p, options}) =>
+      options.some(({pos}) => Math.hypot(...sub(toFrame(frame, p), pos)) < tolerance3D)
+    ).length;
+    if (!best || score > best.score) best = {frame, score};
+  };
+
+  for (const [i, {p: c0, options: o0}] of named.entries()) {
+    for (const {p: c1, options: o1} of named.slice(i + 1)) {
+      if (dist2(c0, c1) < tolerance) continue;
+      for (const {name: n0, pos: p0} of o0) {
+        for (const {name: n1, pos: p1} of o1) {
+          if (!fits(c0, p0, c1, p1)) continue;
+          // Find a third corner not on the line through the first two:
+          let found = false;
+          for (const {p: c2, options: o2} of named) {
+            if (Math.abs(cross2(
+              [c1[0] - c0[0], c1[1] - c0[1]], [c2[0] - c0[0], c2[1] - c0[1]],
+            )) < tolerance) continue;
+            for (const {pos: p2} of o2) {
+              if (fits(c0, p0, c2, p2) && fits(c1, p1, c2, p2)) {
+                consider(frameFrom3(c0, p0, c1, p1, c2, p2));
+                found = true;
+              }
+            }
+          }
+          if (!found && n0 && n1) {
+            // Use the orientation of a face containing both vertices:
+            const position = new Map(snapshot.vertices.map(({name, position}) => [name, position]));
+            for (const {vertices} of snapshot.faces) {
+              if (!vertices.includes(n0) || !vertices.includes(n1)) continue;
+              const normal = scale3(frontSign, faceNormal(vertices.map(v => position.get(v))));
+              consider(frameFrom2(c0, p0, c1, p1, normal));
+            }
+          }
+        }
+      }
+    }
+  }
+  return best && best.score >= 2 ? best.frame : undefined;
+}
+
+/**
+ * Is the edge from `u` to `v` a mountain or a valley fold
+ * (as seen from the front side)?
+ * Returns `undefined` if the adjacent faces are coplanar.
+ */
+function foldKind(
+  snapshot: Snapshot, u: string, v: string, frontSign: number,
+): "mountain" | "valley" | undefined {
+  const position = new Map(snapshot.vertices.map(({name, position}) => [name, position]));
+  const adjacent = (a: string, b: string) => snapshot.faces.find(({vertices}) =>
+    vertices.some((x, i) => x === a && vertices[(i + 1) % vertices.length] === b)
+  );
+  const face1 = adjacent(u, v), face2 = adjacent(v, u);
+  if (!face1 || !face2) return undefined;
+  const n1 = normalize(faceNormal(face1.vertices.map(x => position.get(x))));
+  const others = face2.vertices.filter(x => x !== u && x !== v).map(x => position.get(x));
+  if (others.length === 0) return undefined;
+  const center = scale3(1 / others.length, others.reduce(add));
+  const d = frontSign * dot(n1, sub(center, position.get(u)));
+  return Math.abs(d) < tolerance ? undefined : d > 0 ? "valley" : "mountain";
+}
+
+const esc = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Create the SVG net for the given setup and transform commands.
+ *
+ * `scale` is the length of a unit edge in millimeters.
+ * Edges that could not be placed in the net are reported as XML comments.
+ */
+export function createNet(
+  setupDef: string, transformDef: string, {scale = 20} = {},
+): string {
+  if (setupDef.trimStart().startsWith("{")) fail(
+    `a net can only be created from a star definition, not from a saved state`
+  );
+  const folding = createFolding(setupDef);
+  const setup = folding.snapshot();
+  const starFace = setup.faces.find(f => f.name === "star") ?? fail(`no star face`);
+  const star = new Map(setup.vertices.map(({name, position: [x, y]}) => [name, [x, y] as Vec2]));
+  const outline = starFace.vertices.map(name => star.get(name));
+  const frontSign = Math.sign(faceNormal(starFace.vertices.map(name => [...star.get(name), 0] as Vec3))[2]);
+  const nameAt = (p: Vec2) => star.entries().find(([, q]) => dist2(p, q) < tolerance)?.[0];
+
+  // The star lies in the xy plane:
+  let pieces: Piece[] = [{
+    corners: starFace.vertices.map(name => ({p: star.get(name), name})),
+    frame: {origin: [0, 0, 0], u: [1, 0, 0], w: [0, 1, 0]},
+  }];
+
+  const lines: Line[] = [];
+  const notes: string[] = [];
+
+  /** Star vertices of vertices renamed by "contract" */
+  const renamed = new Map<string, string[]>();
+  const atoms = (name: string) => renamed.get(name) ?? starNames(name, star);
+
+  /** Map the segment between two vertices to the star and split the pieces. */
+  const addLine = (
+    before: Snapshot, after: Snapshot, u: string, v: string, kind: Line["kind"] | undefined,
+  ) => {
+    kind ??= foldKind(after, u, v, frontSign);
+    if (!kind) {
+      notes.push(`edge ${u}-${v} is not folded; skipped`);
+      return;
+    }
+    const position = new Map(before.vertices.map(({name, position}) => [name, position]));
+    const pu = position.get(u), pv = position.get(v);
+    const length = norm(sub(pv, pu));
+    let found = false;
+    pieces = pieces.flatMap(piece => {
+      const {frame} = piece;
+      if (distanceToPlane(frame, pu) > tolerance3D || distanceToPlane(frame, pv) > tolerance3D) {
+        return [piece];
+      }
+      const a0 = fromFrame(frame, pu);
+      const cornerAt = (p: Vec2): Corner => {
+        const name = nameAt(p);
+        return name ? {p, name} : {p, on: {
+          from: atoms(u), to: atoms(v), length, t: dist2(a0, p) / length,
+        }};
+      };
+      let parts = [piece];
+      for (const [a, b] of clipSegment(a0, fromFrame(frame, pv), piece.corners.map(c => c.p))) {
+        found = true;
+        lines.push({kind, from: a, to: b});
+        const mid = lerp2(a, b, .5);
+        parts = parts.flatMap(part =>
+          isInside(mid, part.corners.map(c => c.p)) ? splitPiece(part, a, b, cornerAt) : [part]
+        );
+      }
+      return parts;
+    });
+    if (!found) notes.push(`edge ${u}-${v} not found in the star; skipped`);
+  };
+
+  for (const {command: line} of expandScript(transformDef)) {
+    const command = parseCommand(line);
+    if (command.type === "fold") {
+      // The polyhedron is not derived from the star by folding steps.
+      notes.push(`"${line}" is not supported; the net ends before it`);
+      break;
+    }
+    const before = folding.snapshot();
+    folding.apply(command);
+    const after = folding.snapshot();
+    switch (command.type) {
+      case "bend": {
+        const {vertices} = command;
+        for (let i = 0; i + 1 < vertices.length; i++) {
+          addLine(before, after, vertices[i], vertices[i + 1], undefined);
+        }
+        break;
+      }
+      case "bend2": {
+        const [p, q, r] = command.vertices;
+        addLine(before, after, p, q, undefined);
+        addLine(before, after, q, r, undefined);
+        break;
+      }
+      case "reattach": {
+        const [p, q] = command.vertices;
+        addLine(before, after, p, q, "cut");
+        break;
+      }
+      case "contract": {
+        // The tip gets a new name, which does not tell us its star vertices.
+        const {tipName} = command;
+        const remaining = new Set(
+          after.vertices.filter(v => v.name !== tipName).flatMap(v => atoms(v.name))
+        );
+        renamed.set(tipName, [...new Set(
+          before.vertices.flatMap(v => atoms(v.name)).filter(n => !remaining.has(n))
+        )]);
+        break;
+      }
+    }
+
+    // Move the pieces along with the mesh:
+    const candidates = new Map<string, Candidate[]>();
+    for (const {name, position} of after.vertices) {
+      for (const starName of atoms(name)) {
+        candidates.set(starName, [...candidates.get(starName) ?? [], {name, pos: position}]);
+      }
+    }
+    const candidatesOf = ({name, on}: Corner): Candidate[] => {
+      if (name) return candidates.get(name) ?? [];
+      const {from, to, length, t} = on;
+      const ends = (names: string[]) => names.flatMap(n => candidates.get(n) ?? []);
+      return ends(from).flatMap(({pos: p0}) =>
+        ends(to).flatMap(({pos: p1}) =>
+          Math.abs(norm(sub(p1, p0)) - length) < tolerance3D
+          ? [{pos: add(p0, scale3(t, sub(p1, p0)))}]
+          : []
+        )
+      );
+    };
+    let lost = 0;
+    for (const piece of pieces) {
+      const frame = updateFrame(piece, after, candidatesOf, frontSign);
+      if (frame) piece.frame = frame; else lost++;
+    }
+    if (lost > 0) notes.push(`lost track of ${lost} piece(s) after "${line}"`);
+  }
+
+  // Glue tabs on one edge of each initial pair of peers.  The tabs point
+  // away from the star interior.
+  const tabHeight = .25;
+  const tabs: {points: Vec2[], label: string}[] = [];
+  const edgeLabels: {at: Vec2, label: string}[] = [];
+  for (const [[a0, b0], [a1, b1]] of setup.peers) {
+    const tip = [a0, b0].find(n => n === a1 || n === b1);
+    // The tip was created by the setup line given by the second part of its name:
+    const label = tip?.split("^")[1] ?? tip ?? "";
+    [[a0, b0], [a1, b1]].forEach(([a, b], i) => {
+      const p = star.get(a), q = star.get(b);
+      const len = dist2(p, q);
+      const d: Vec2 = [(q[0] - p[0]) / len, (q[1] - p[1]) / len];
+      let n: Vec2 = [d[1], -d[0]];
+      if (isInside(lerp2(lerp2(p, q, .5), [p[0] + n[0], p[1] + n[1]], .01), outline)) {
+        n = [-n[0], -n[1]];
+      }
+      const h = Math.min(tabHeight, len / 3);
+      const at = (base: Vec2, along: number, out: number): Vec2 =>
+        [base[0] + d[0] * along + n[0] * out, base[1] + d[1] * along + n[1] * out];
+      if (i === 0) {
+        tabs.push({points: [p, at(p, h, h), at(q, -h, h), q], label});
+        edgeLabels.push({at: at(lerp2(p, q, .5), 0, h / 2), label});
+      } else {
+        edgeLabels.push({at: at(lerp2(p, q, .5), 0, -.12), label});
+      }
+    });
+  }
+
+  // SVG coordinates in millimeters (with y pointing down):
+  const toSVG = ([x, y]: Vec2) => [x * scale, -y * scale];
+  const pt = (p: Vec2) => toSVG(p).map(c => c.toFixed(2)).join(",");
+  const allPoints = [...outline, ...tabs.flatMap(t => t.points)].map(toSVG);
+  const margin = 10;
+  const minX = Math.min(...allPoints.map(p => p[0])) - margin;
+  const minY = Math.min(...allPoints.map(p => p[1])) - margin;
+  const width = Math.max(...allPoints.map(p => p[0])) + margin - minX;
+  const height = Math.max(...allPoints.map(p => p[1])) + margin - minY + 8 /* legend */;
+  const fontSize = scale / 6;
+
+  const text = (p: Vec2, s: string, cls: string) => {
+    const [x, y] = toSVG(p);
+    return `<text class="${cls}" x="${x.toFixed(2)}" y="${y.toFixed(2)}">${esc(s)}</text>`;
+  };
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width.toFixed(2)}mm" height="${height.toFixed(2)}mm"` +
+    ` viewBox="${minX.toFixed(2)} ${minY.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)}">`,
+    `<style>`,
+    `  path, polygon, line { fill: none; stroke-width: 0.3; stroke-linecap: round; }`,
+    `  .outline, .cut { stroke: black; }`,
+    `  .tab { stroke: black; fill: #eee; }`,
+    `  .mountain { stroke: #c00; stroke-dasharray: 4 1.5 0.5 1.5; }`,
+    `  .valley { stroke: #00c; stroke-dasharray: 2 1.5; }`,
+    `  text { font-family: sans-serif; text-anchor: middle; dominant-baseline: middle; }`,
+    `  .vertex { font-size: ${fontSize.toFixed(2)}px; fill: #444; }`,
+    `  .edge { font-size: ${(fontSize * .8).toFixed(2)}px; fill: #080; }`,
+    `  .legend { font-size: 3px; text-anchor: start; }`,
+    `</style>`,
+    ...notes.map(note => `<!-- ${esc(note).replace(/--/g, "- -")} -->`),
+    ...tabs.map(({points}) => `<polygon class="tab" points="${points.map(pt).join(" ")}"/>`),
+    `<polygon class="outline" points="${outline.map(pt).join(" ")}"/>`,
+    ...lines.map(({kind, from, to}) => {
+      const [x1, y1] = toSVG(from), [x2, y2] = toSVG(to);
+      return `<line class="${kind}" x1="${x1.toFixed(2)}" y1="${y1.toFixed(2)}" x2="${x2.toFixed(2)}" y2="${y2.toFixed(2)}"/>`;
+    }),
+    ...edgeLabels.map(({at, label}) => text(at, label, "edge")),
+    ...setup.vertices.map(({name, position: [x, y]}) => {
+      // Move the label slightly towards the star center:
+      const center = outline.reduce((c, p) => [c[0] + p[0] / outline.length, c[1] + p[1] / outline.length], [0, 0]);
+      const d = dist2([x, y], center as Vec2);
+      const shift = d < tolerance ? 0 : .15 / d;
+      return text(lerp2([x, y], center as Vec2, shift), name, "vertex");
+    }),
+    `<text class="legend" x="${(minX + margin).toFixed(2)}" y="${(minY + height - 5).toFixed(2)}">` +
+    `black: cut, red dash-dotted: mountain fold, blue dashed: valley fold, gray: glue tab</text>`,
+    `</svg>`,
+    ``,
+  ].join("\n");
+}
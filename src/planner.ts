@@ -0,0 +1,366 @@
+import { createFolding, Folding, parseCommand } from './folding';
+import { Loop, Vertex } from './mesh';
+import { MyMesh } from './MyMesh';
+import { count } from './utils';
+
+/*
+Find a transform script for a star automatically.
+
+The target is a set of edges of the polyhedron, given by their end vertices
+(as star corner names; the tips are all the same vertex) and optionally by
+their lengths.  By default the edges of the polyhedron computed by
+`fold auto` are used (see `starEdges()` in `MyMesh.ts`).
+
+A script consists of three parts:
+
+1. `reattach` commands.  `reattach p q` removes the peer edges at `q` (which
+   are glued into a face) and cuts along `pq` instead.  These commands are
+   searched for.  The state is acceptable if
+   - every target edge is either already an edge (possibly a boundary edge,
+     which will be glued to its peer by `contract`) or a line segment
+     within a face that can be created by `bend` and
+   - every edge is a target edge.
+2. `bend2` commands where the faces next to a pair of peers are complete and
+   `bend` commands for the remaining target edges.
+3. `contract`.
+
+The search is a depth-first search trying the `reattach` commands with the
+best resulting states first.  It only cuts along target edges.
+Visited states (identified by their edges) are skipped.
+
+The script is verified by running it.  If it does not end in a closed
+polyhedron with the target edges, the search continues.
+*/
+
+export type TargetEdge = {from: string, to: string, length?: number};
+
+export type PlanOptions = {
+  /** Defaults to the edges of the polyhedron from `fold auto` */
+  target?: TargetEdge[],
+  /** The maximum number of `reattach` commands */
+  maxDepth?: number,
+  /** The maximum number of states to visit */
+  maxStates?: number,
+  /** The bending angle for `bend` */
+  angle?: number,
+  /** The name for the vertex where the tips meet */
+  tipName?: string,
+};
+
+export type Plan = {
+  /** The transform script (if one was found) */
+  script?: string,
+  /** How the planner proceeded and why it gave up */
+  report: string[],
+};
+
+const tolerance = 1e-6;
+
+/** The polyhedron vertex for a vertex name (`undefined` for unknown names) */
+type VertexMap = (name: string) => string | undefined;
+
+function vertexMap(mesh: MyMesh): VertexMap {
+  const {vertices, cornerNames} = mesh.intrinsicTriangulation();
+  const vertexName = new Map(vertices.flatMap(({name, corners}) =>
+    corners.map(i => [cornerNames[i], name] as [string, string])
+  ));
+  // Undo the renaming by `reattach` (suffixes `.0` and `.1`) and by
+  // merging (names joined by "+" or chained tip names).
+  return name => vertexName.get(
+    name.split("+")[0].replace(/(\.[01])+$/, "").split("^").slice(0, 2).join("^")
+  );
+}
+
+const edgeKey = (a: string, b: string) => [a, b].sort().join(" - ");
+
+type Segment = {p: Vertex, q: Vertex, key: string, length: number};
+
+/** Analysis of the current (flat) state of the mesh */
+type State = {
+  /** The target edges that are neither edges nor available as segments */
+  missing: string[],
+  /** The edges that are not target edges */
+  extra: string[],
+  /** The segments for the target edges that are not yet edges */
+  bends: Segment[],
+  /** Candidates for `reattach` */
+  cuts: Segment[],
+  /** Identifies the state */
+  signature: string,
+};
+
+const xy = (mesh: MyMesh, v: Vertex) => [mesh.pos(v).value("x"), mesh.pos(v).value("y")];
+
+/**
+ * Is the line segment from `p` to `q` (both being corners of the flat face)
+ * inside the face and free of other corners?
+ */
+function isInside(mesh: MyMesh, face: Loop, p: Vertex, q: Vertex) {
+  const [px, py] = xy(mesh, p), [qx, qy] = xy(mesh, q);
+  const [dx, dy] = [qx - px, qy - py];
+  const length = Math.hypot(dx, dy);
+  const side = (x: number, y: number) => (dx * (y - py) - dy * (x - px)) / length;
+  const corners = face.vertices().toArray();
+  for (const v of corners) {
+    if (v === p || v === q) continue;
+    const [x, y] = xy(mesh, v);
+    const t = ((x - px) * dx + (y - py) * dy) / (length * length);
+    if (Math.abs(side(x, y)) < tolerance && t > 0 && t < 1) return false;
+  }
+  for (const {from, to} of face.halfEdges()) {
+    if ([p, q].includes(from) || [p, q].includes(to)) continue;
+    const [ax, ay] = xy(mesh, from), [bx, by] = xy(mesh, to);
+    const sa = side(ax, ay), sb = side(bx, by);
+    if (sa * sb >= 0) continue;
+    // The edge crosses the line through p and q.  Where?
+    const t = ((ax - px) * (by - ay) - (ay - py) * (bx - ax)) / (dx * (by - ay) - dy * (bx - ax));
+    if (t > 0 && t < 1) return false;
+  }
+  // The segment is either completely inside or completely outside.
+  // Check the midpoint with the winding number.
+  const [mx, my] = [px + dx / 2, py + dy / 2];
+  let winding = 0;
+  for (const {from, to} of face.halfEdges()) {
+    const [ax, ay] = xy(mesh, from), [bx, by] = xy(mesh, to);
+    const cross = (bx - ax) * (my - ay) - (by - ay) * (mx - ax);
+    if (ay <= my && by > my && cross > 0) winding++;
+    if (ay > my && by <= my && cross < 0) winding--;
+  }
+  return winding !== 0;
+}
+
+function analyze(mesh: MyMesh, target: Map<string, number | undefined>, map: VertexMap): State {
+  const {boundary, peers} = mesh;
+  const isTarget = (key: string, length: number) =>
+    target.has(key) && !(Math.abs((target.get(key) ?? length) - length) > tolerance);
+  const name = (v: Vertex) => map(v.name) ?? v.name;
+
+  const present = new Set<string>(), extra: string[] = [], signature: string[] = [];
+  for (const loop of mesh.loops) {
+    for (const he of loop.halfEdges()) {
+      if (he.id > he.twin.id) continue;
+      const key = edgeKey(name(he.from), name(he.to)), length = mesh.heLength(he);
+      signature.push(`${key} ${length.toFixed(6)}`);
+      if (isTarget(key, length)) present.add(key);
+      else extra.push(key);
+    }
+  }
+
+  const onBoundary = new Set(boundary.vertices());
+  const bends: Segment[] = [], cuts: Segment[] = [];
+  for (const face of mesh.loops) {
+    if (face === boundary) continue;
+    const corners = face.vertices().filter(v => onBoundary.has(v)).toArray();
+    corners.forEach((p, i) => {
+      for (const q of corners.slice(i + 1)) {
+        if (p === q || p.neighbors().some(v => v === q)) continue;
+        const key = edgeKey(name(p), name(q)), length = mesh.distance(p, q);
+        if (!isTarget(key, length) || present.has(key)) continue;
+        if (count(p.loops().filter(l => l !== boundary && l.vertices().some(v => v === q))) !== 1) continue;
+        if (!isInside(mesh, face, p, q)) continue;
+        bends.push({p, q, key, length});
+        // `reattach p q` requires the boundary edges at `q` to be peers:
+        for (const [a, b] of [[p, q], [q, p]]) {
+          const heOut = b.halfEdgesOut().find(he => he.loop === boundary);
+          if (peers.get(heOut) === heOut.prev) cuts.push({p: a, q: b, key, length});
+        }
+      }
+    });
+  }
+
+  const available = new Set(bends.map(({key}) => key));
+  return {
+    missing: target.keys().filter(key => !present.has(key) && !available.has(key)).toArray(),
+    extra,
+    bends,
+    cuts,
+    signature: signature.sort().join("\n"),
+  };
+}
+
+const cost = ({missing, extra}: State) => missing.length + extra.length;
+
+/**
+ * Plan a transform script for the given setup.
+ *
+ * Never throws for failed searches or for setups that cannot be analyzed
+ * (e.g., invalid or degenerate stars); the reasons are given in the report.
+ */
+export function planFolding(setupDef: string, {
+  target,
+  maxDepth = 10,
+  maxStates = 500,
+  angle = .5,
+  tipName,
+}: PlanOptions = {}): Plan {
+  const report: string[] = [];
+  let folding: Folding, map: VertexMap;
+  try {
+    folding = createFolding(setupDef);
+    map = vertexMap(folding.mesh);
+  } catch (e) {
+    report.push(`cannot analyze the setup: ${e.message}`);
+    return {report};
+  }
+  const {mesh} = folding;
+  tipName ??= "abcdefghijklmnopqrstuvwxyz".split("").find(c =>
+    !mesh.vertices.values().some(v => v.name === c)
+  ) ?? "tip";
+
+  if (!target) {
+    const polyhedron = mesh.starEdges()?.polyhedron;
+    if (!polyhedron) {
+      report.push(`no polyhedron found for the star; please provide a target`);
+      return {report};
+    }
+    target = polyhedron;
+  }
+  const targetMap = new Map<string, number | undefined>();
+  for (const {from, to, length} of target) {
+    const [a, b] = [from, to].map(name => map(name) ?? name);
+    if (a === b) {
+      report.push(`ignoring target edge ${from} - ${to} (a loop)`);
+      continue;
+    }
+    targetMap.set(edgeKey(a, b), length);
+  }
+  const unknown = targetMap.keys().filter(key => key.split(" - ").some(n => !map(n))).toArray();
+  if (unknown.length > 0) {
+    report.push(`unknown vertices in target edges ${unknown.join(", ")}`);
+    return {report};
+  }
+  report.push(`target: ${targetMap.size} edges`);
+
+  const visited = new Set<string>();
+  let best: {state: State, commands: string[]};
+  let depthCapReached = false;
+
+  /** Returns the script if one was found */
+  function search(commands: string[], state: State): string | undefined {
+    if (!best || cost(state) < cost(best.state)) best = {state, commands};
+    if (state.missing.length === 0 && state.extra.length === 0) {
+      const script = finish(commands, state);
+      if (script) return script;
+    }
+    if (commands.length >= maxDepth) {
+      depthCapReached = true;
+      return;
+    }
+    const children: {command: string, state: State}[] = [];
+    for (const {p, q} of state.cuts) {
+      if (visited.size >= maxStates) break;
+      const command = `reattach ${p.name} ${q.name}`;
+      try {
+        folding.apply(parseCommand(command));
+      } catch {
+        continue;
+      }
+      const child = analyze(mesh, targetMap, map);
+      folding.undo();
+      if (visited.has(child.signature)) continue;
+      visited.add(child.signature);
+      children.push({command, state: child});
+    }
+    children.sort((a, b) => cost(a.state) - cost(b.state));
+    for (const {command, state: child} of children) {
+      folding.apply(parseCommand(command));
+      const script = search([...commands, command], child);
+      folding.undo();
+      if (script) return script;
+    }
+  }
+
+  /** Complete the script and verify it */
+  function finish(commands: string[], state: State) {
+    const bends = state.bends.map(({p, q}) => `bend ${angle} ${p.name} ${q.name}`);
+    const contract = `contract 100 ${tipName}`;
+    const withBend2 = bend2s(state);
+    const candidates = [
+      ...withBend2 ? [[...commands, ...withBend2, contract]] : [],
+      [...commands, ...bends, contract],
+    ];
+    for (const candidate of candidates) {
+      const error = verify(setupDef, candidate, targetMap.size);
+      if (!error) return candidate.join("\n") + "\n";
+      report.push(`script failed: ${error}:\n  ${candidate.join("\n  ")}`);
+    }
+  }
+
+  /**
+   * Use `bend2` where the faces on both sides of some peers are complete
+   * (in the target) and `bend` for the other target edges.
+   * The `bend2` commands come last because they remove their middle vertex
+   * from the boundary.  Each of them is tried (on the current mesh) and
+   * replaced by two `bend` commands if it fails.
+   */
+  function bend2s(state: State) {
+    const {boundary, peers} = mesh;
+    const bends = new Map(state.bends.map(({p, q}) =>
+      [edgeKey(p.name, q.name), `bend ${angle} ${p.name} ${q.name}`]
+    ));
+    const triples: {line: string, replacement: string[]}[] = [];
+    for (const q of boundary.vertices()) {
+      const heOut = q.halfEdgesOut().find(he => he.loop === boundary);
+      const heIn = heOut.prev;
+      if (peers.get(heOut) !== heIn) continue;
+      const p = heIn.from.halfEdgesIn().find(he => he.loop === boundary).from;
+      const r = heOut.to.halfEdgesOut().find(he => he.loop === boundary).to;
+      const pq = edgeKey(p.name, q.name), qr = edgeKey(q.name, r.name);
+      if (!bends.has(pq) || !bends.has(qr)) continue;
+      triples.push({line: `bend2 + ${p.name} ${q.name} ${r.name}`, replacement: [bends.get(pq), bends.get(qr)]});
+      bends.delete(pq);
+      bends.delete(qr);
+    }
+
+    const lines: string[] = [];
+    const tryLine = (line: string) => {
+      try {
+        folding.apply(parseCommand(line));
+        lines.push(line);
+        return true;
+      } catch {
+        return false;
+      }
+    };
+    try {
+      for (const line of bends.values()) if (!tryLine(line)) return;
+      for (const {line, replacement} of triples) {
+        if (!tryLine(line) && !replacement.every(tryLine)) return;
+      }
+      return lines;
+    } finally {
+      lines.forEach(() => folding.undo());
+    }
+  }
+
+  const start = analyze(mesh, targetMap, map);
+  visited.add(start.signature);
+  const script = search([], start);
+  if (script) {
+    report.push(`found a script after visiting ${visited.size} states`);
+    return {script, report};
+  }
+
+  report.push(`no script found after visiting ${visited.size} states`);
+  if (visited.size >= maxStates) report.push(`state limit (${maxStates}) reached`);
+  if (depthCapReached) report.push(`depth limit (${maxDepth} reattach commands) reached`);
+  const {state, commands} = best;
+  report.push(`best state after ${commands.length ? commands.join("; ") : "no commands"}:`);
+  if (state.missing.length > 0) report.push(`  target edges not available: ${state.missing.join(", ")}`);
+  if (state.extra.length > 0) report.push(`  edges not in the target: ${[...new Set(state.extra)].join(", ")}`);
+  return {report};
+}
+
+/** Run the script and return an error message if it fails */
+function verify(setupDef: string, commands: string[], nEdges: number) {
+  let folding: Folding;
+  try {
+    folding = createFolding(setupDef);
+    for (const line of commands) folding.apply(parseCommand(line));
+  } catch (e) {
+    return e.message as string;
+  }
+  if (folding.mesh.boundary) return `not closed`;
+  const {edges} = folding.snapshot();
+  if (edges.length !== nEdges) return `${edges.length} edges instead of ${nEdges}`;
+}
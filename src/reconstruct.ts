@@ -0,0 +1,210 @@
+import { fail, log } from './utils';
+import { IntrinsicTriangulation } from './intrinsic';
+import { cross, dot, lengthResidual, levenbergMarquardt, norm, sub, Vec3 } from './solver';
+
+/*
+Find the convex polyhedron for an intrinsic triangulation of a flat surface
+with cone points (which exists and is unique by Alexandrov's theorem if the
+curvatures are non-negative):
+
+1. Start with the intrinsic Delaunay triangulation and an initial embedding
+   computed by classical multidimensional scaling of the distances along the
+   edges.
+2. Move the vertices so that all edges get their intrinsic lengths
+   (with the Levenberg-Marquardt solver also used by `contract`).
+3. If some edge is concave (a valley fold), it cannot be an edge of the convex
+   polyhedron.  So flip it and continue with step 2.
+4. Merge coplanar triangles into faces.
+
+Unlike the variational method of Bobenko and Izmestiev this is not
+guaranteed to succeed.  But it finds the polyhedra for our stars.
+*/
+
+export type Polyhedron = {
+  positions: Vec3[],
+  /** Vertex indices in counterclockwise order (as seen from outside) */
+  faces: number[][],
+  /** The polyhedron edges as half-edges of the triangulation */
+  edges: number[],
+};
+
+/** Tolerance for the distance of a point from a plane */
+const flatTolerance = 1e-6;
+
+/** All-pairs distances along the edges (Floyd-Warshall) */
+function edgeDistances(tri: IntrinsicTriangulation): number[][] {
+  const n = tri.vertices.length;
+  const dist = Array.from({length: n}, (_, i) =>
+    Array.from({length: n}, (_, j) => i === j ? 0 : Infinity)
+  );
+  for (const h of tri.edges()) {
+    const i = tri.origin[h], j = tri.origin[tri.twin[h]];
+    dist[i][j] = dist[j][i] = Math.min(dist[i][j], tri.length[h]);
+  }
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        dist[i][j] = Math.min(dist[i][j], dist[i][k] + dist[k][j]);
+      }
+    }
+  }
+  return dist;
+}
+
+/**
+ * Eigenvalues and eigenvectors of a symmetric matrix (Jacobi method).
+ * `vectors[k]` belongs to `values[k]`.
+ */
+function symmetricEigen(matrix: number[][]) {
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const v: number[][] = a.map((_, i) => a.map((_, j) => i === j ? 1 : 0));
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] ** 2;
+    if (off < 1e-20) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1), s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return {
+    values: a.map((row, i) => row[i]),
+    vectors: a.map((_, k) => v.map(row => row[k])),
+  };
+}
+
+/** Classical multidimensional scaling to 3D */
+function initialPositions(tri: IntrinsicTriangulation): Vec3[] {
+  const d2 = edgeDistances(tri).map(row => row.map(d => d * d));
+  const n = d2.length;
+  const rowMeans = d2.map(row => row.reduce((s, x) => s + x, 0) / n);
+  const mean = rowMeans.reduce((s, x) => s + x, 0) / n;
+  const b = d2.map((row, i) => row.map((x, j) => -(x - rowMeans[i] - rowMeans[j] + mean) / 2));
+  const {values, vectors} = symmetricEigen(b);
+  const order = values.keys().toArray().sort((i, j) => values[j] - values[i]).slice(0, 3);
+  return Array.from({length: n}, (_, i) =>
+    order.map(k => vectors[k][i] * Math.sqrt(Math.max(values[k], 0))) as Vec3
+  );
+}
+
+/**
+ * How far the opposite vertex of the twin triangle is above the plane of the
+ * triangle of `h` (positive for a concave edge)
+ */
+function concavity(tri: IntrinsicTriangulation, positions: Vec3[], h: number) {
+  const {origin} = tri;
+  const a = positions[origin[h]];
+  const b = positions[origin[tri.twin[h]]];
+  const c = positions[origin[tri.prev(h)]];
+  const d = positions[origin[tri.prev(tri.twin[h])]];
+  const normal = cross(sub(b, a), sub(c, a));
+  return dot(normal, sub(d, a)) / norm(normal);
+}
+
+/**
+ * Find the convex polyhedron.  `tri` is modified by edge flips.
+ * Fails if no convex embedding is found.
+ */
+export function reconstructPolyhedron(
+  tri: IntrinsicTriangulation,
+  {maxFlips = 100, maxIterations = 200} = {},
+): Polyhedron {
+  log(`made triangulation Delaunay with ${tri.makeDelaunay()} flip(s)`);
+  let positions = initialPositions(tri);
+
+  for (let flips = 0; ; flips++) {
+    if (flips > maxFlips) fail(`no convex polyhedron found after ${maxFlips} flips`);
+
+    // Loops cannot be edges of a convex polyhedron.
+    const loop = tri.edges().find(h => tri.origin[h] === tri.origin[tri.twin[h]]);
+    if (loop !== undefined) {
+      if (!tri.isFlippable(loop)) fail(`cannot flip away the loop ${tri.edgeName(loop)}`);
+      log(`flipping loop ${tri.edgeName(loop)}`);
+      tri.flip(loop);
+      continue;
+    }
+
+    const residuals = tri.edges().map(h => lengthResidual(
+      "edge length", tri.origin[h], tri.origin[tri.twin[h]], tri.length[h],
+    ));
+    const {converged, iterations, stats} =
+      levenbergMarquardt(positions, residuals, {maxIterations, tolerance: 1e-10});
+    const {max} = stats.get("edge length");
+    log(`solver ${converged ? "converged" : "did not converge"} after ${iterations
+      } iterations; max residual ${max.toExponential(3)}`);
+
+    // Make the triangles counterclockwise as seen from outside:
+    const volume = tri.triangles().reduce((sum, hs) => {
+      const [p, q, r] = hs.map(h => positions[tri.origin[h]]);
+      return sum + dot(p, cross(q, r));
+    }, 0);
+    if (volume < 0) positions = positions.map(([x, y, z]) => [-x, y, z]);
+
+    const concave = tri.edges()
+      .map(h => ({h, value: concavity(tri, positions, h)}))
+      .filter(({value}) => value > flatTolerance)
+      .sort((e1, e2) => e2.value - e1.value);
+    if (concave.length === 0) {
+      if (!converged) fail(
+        `the edge lengths cannot be achieved (max residual ${max.toExponential(3)})`
+      );
+      break;
+    }
+    const flippable = concave.find(({h}) => tri.isFlippable(h)) ?? fail(
+      `cannot flip any of the concave edges ${concave.map(({h}) => tri.edgeName(h)).join(", ")}`
+    );
+    log(`flipping concave edge ${tri.edgeName(flippable.h)}`);
+    tri.flip(flippable.h);
+  }
+
+  // Edges between coplanar triangles are not edges of the polyhedron.
+  // (But keep them at flat vertices, which would be isolated otherwise.)
+  const flat = new Set(tri.origin.keys().filter(h =>
+    Math.abs(concavity(tri, positions, h)) < flatTolerance
+  ));
+  tri.vertices.forEach((_, v) => {
+    const out = tri.origin.keys().filter(h => tri.origin[h] === v).toArray();
+    if (out.every(h => flat.has(h))) {
+      for (const h of out) {
+        flat.delete(h);
+        flat.delete(tri.twin[h]);
+      }
+    }
+  });
+
+  const faces: number[][] = [];
+  const done = new Set<number>();
+  for (const h of tri.origin.keys()) {
+    if (flat.has(h) || done.has(h)) continue;
+    const face: number[] = [];
+    let e = h;
+    do {
+      done.add(e);
+      face.push(tri.origin[e]);
+      e = tri.next(e);
+      while (flat.has(e)) e = tri.next(tri.twin[e]);
+    } while (e !== h);
+    faces.push(face);
+  }
+  return {positions, faces, edges: tri.edges().filter(h => !flat.has(h))};
+}
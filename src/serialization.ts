@@ -0,0 +1,133 @@
+import { fail } from './utils';
+import { XYZ } from './geom-utils';
+import { HalfEdge, Loop, Vertex } from './mesh';
+import { MyMesh } from './MyMesh';
+
+/*
+A JSON format for saving a folding state (a `MyMesh`) and loading it again.
+
+Mesh elements reference each other by their index in the respective array:
+
+  {
+    "format": "star-folding-state",
+    "version": 1,
+    "vertices": [{"name": "a", "position": [0, 0, 0], "firstHalfEdgeOut": 0}, ...],
+    "loops": [{"name": "star", "firstHalfEdge": 1}, ...],
+    "halfEdges": [{"to": 1, "loop": 0, "next": 2, "twin": 1}, ...],
+    "boundary": 1,
+    "peers": [[3, 8], ...]
+  }
+
+- `halfEdges[i].prev` is not stored.  It is derived from `next`.
+- `boundary` is `null` for a closed mesh.
+- `peers` lists each pair of peer half-edges once.
+
+The loaded mesh gets new element ids, but names, connectivity, and the
+iteration order of vertices and loops are preserved.
+*/
+
+export type SerializedState = {
+  format: "star-folding-state",
+  version: 1,
+  vertices: {name: string, position: [number, number, number], firstHalfEdgeOut: number}[],
+  loops: {name: string, firstHalfEdge: number}[],
+  halfEdges: {to: number, loop: number, next: number, twin: number}[],
+  boundary: number | null,
+  peers: [number, number][],
+};
+
+export function serializeState(mesh: MyMesh): SerializedState {
+  const vertices = [...mesh.vertices];
+  const loops = [...mesh.loops];
+  const halfEdges = loops.flatMap(l => [...l.halfEdges()]);
+  const vIdx = new Map(vertices.map((v, i) => [v, i]));
+  const lIdx = new Map(loops.map((l, i) => [l, i]));
+  const heIdx = new Map(halfEdges.map((he, i) => [he, i]));
+
+  return {
+    format: "star-folding-state",
+    version: 1,
+    vertices: vertices.map(v => {
+      const p = mesh.pos(v);
+      return {
+        name: v.name,
+        position: [p.value("x"), p.value("y"), p.value("z")],
+        firstHalfEdgeOut: heIdx.get(v.firstHalfEdgeOut),
+      };
+    }),
+    loops: loops.map(l => ({name: l.name, firstHalfEdge: heIdx.get(l.firstHalfEdge)})),
+    halfEdges: halfEdges.map(he => ({
+      to: vIdx.get(he.to),
+      loop: lIdx.get(he.loop),
+      next: heIdx.get(he.next),
+      twin: heIdx.get(he.twin),
+    })),
+    boundary: mesh.boundary ? lIdx.get(mesh.boundary) : null,
+    peers:
+      mesh.peers.entries()
+      .map(([he0, he1]) => [heIdx.get(he0), heIdx.get(he1)] as [number, number])
+      .filter(([i0, i1]) => i0 <= i1)
+      .toArray(),
+  };
+}
+
+/**
+ * Populate an empty `MyMesh` from serialized data.
+ *
+ * Fails if the data is malformed or if the resulting mesh does not pass
+ * `checkWithData()`.
+ */
+export function loadState(mesh: MyMesh, data: SerializedState) {
+  if (mesh.vertices.size > 0 || mesh.loops.size > 0) fail(
+    `can only load a state into an empty mesh`
+  );
+  if (data?.format !== "star-folding-state") fail(`not a saved folding state`);
+  if (data.version !== 1) fail(`unsupported state version: ${data.version}`);
+  for (const key of ["vertices", "loops", "halfEdges", "peers"] as const) {
+    if (!Array.isArray(data[key])) fail(`saved state: "${key}" should be an array`);
+  }
+
+  const vertices = data.vertices.map(({name}) => mesh.makeVertex(name));
+  const loops = data.loops.map(({name}) => mesh.makeLoop(name));
+  const halfEdges = data.halfEdges.map(() => new HalfEdge());
+
+  function lookup<T>(what: string, items: T[], idx: number): T {
+    if (!(Number.isInteger(idx) && idx >= 0 && idx < items.length)) fail(
+      `saved state: invalid ${what} index ${idx}`
+    );
+    return items[idx];
+  }
+  const vertex = (idx: number): Vertex => lookup("vertex", vertices, idx);
+  const loop = (idx: number): Loop => lookup("loop", loops, idx);
+  const halfEdge = (idx: number): HalfEdge => lookup("half-edge", halfEdges, idx);
+
+  data.halfEdges.forEach((heData, i) => {
+    const he = halfEdges[i];
+    he.to = vertex(heData.to);
+    he.loop = loop(heData.loop);
+    he.twin = halfEdge(heData.twin);
+    he.next = halfEdge(heData.next);
+    if (he.next.prev) fail(`saved state: ${heData.next} is "next" of several half-edges`);
+    he.next.prev = he;
+  });
+  data.vertices.forEach(({position, firstHalfEdgeOut}, i) => {
+    const v = vertices[i];
+    v.firstHalfEdgeOut = halfEdge(firstHalfEdgeOut);
+    if (!(
+      Array.isArray(position) && position.length === 3 &&
+      position.every(x => Number.isFinite(x))
+    )) fail(`saved state: invalid position of vertex ${v.name}`);
+    mesh.setPos(v, XYZ.vec(position));
+  });
+  data.loops.forEach(({firstHalfEdge}, i) => {
+    loops[i].firstHalfEdge = halfEdge(firstHalfEdge);
+  });
+  mesh.boundary = data.boundary === null ? undefined : loop(data.boundary);
+  mesh.peers.clear();
+  for (const [i0, i1] of data.peers) {
+    const he0 = halfEdge(i0), he1 = halfEdge(i1);
+    mesh.peers.set(he0, he1).set(he1, he0);
+  }
+
+  mesh.checkWithData();
+}
@@ -0,0 +1,277 @@
+import { log } from "./utils";
+
+/**
+ * Plain coordinate triples.
+ *
+ * The solver works on these rather than on multivectors because it evaluates
+ * the residuals very often (for the numeric Jacobian).
+ */
+export type Vec3 = [number, number, number];
+
+/**
+ * A scalar function of some points that should become 0.
+ *
+ * `f` receives the coordinates of the points listed in `points`
+ * (in the same order).
+ */
+export type Residual = {
+  kind: string,
+  points: number[],
+  f: (coords: Vec3[]) => number,
+};
+
+export type ResidualStats = {
+  count: number,
+  max: number,
+  rms: number,
+};
+
+export type SolverResult = {
+  converged: boolean,
+  iterations: number,
+  stats: Map<string, ResidualStats>,
+};
+
+// -----------------------------------------------------------------------------
+// Vector helpers
+
+export const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+export const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+export const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+export const norm = (a: Vec3) => Math.sqrt(dot(a, a));
+export const angle = (a: Vec3, b: Vec3) => Math.atan2(norm(cross(a, b)), dot(a, b));
+
+/** Twice the vector area of a polygon (normal to its plane if it is planar) */
+export function directedArea(coords: Vec3[]): Vec3 {
+  const n = coords.length;
+  let area: Vec3 = [0, 0, 0];
+  coords.forEach((p, i) => {
+    const c = cross(p, coords[(i + 1) % n]);
+    area = [area[0] + c[0], area[1] + c[1], area[2] + c[2]];
+  });
+  return area;
+}
+
+/**
+ * The interior angle at corner `k` of a polygon, measured about the
+ * polygon's normal and mapped to (-π, π] (so reflex angles are negative).
+ * Unlike `angle(...)` it distinguishes a reflex corner from its mirror
+ * image, and its derivative does not vanish at straight corners.
+ */
+export function cornerAngle(coords: Vec3[], k: number) {
+  const n = coords.length;
+  const c = coords[k];
+  const a = sub(coords[(k + 1) % n], c), b = sub(coords[(k + n - 1) % n], c);
+  const area = directedArea(coords);
+  const areaNorm = norm(area);
+  if (areaNorm < 1e-12) return angle(a, b); // degenerate polygon
+  return Math.atan2(dot(area, cross(a, b)) / areaNorm, dot(a, b));
+}
+
+/** Map an angle difference to (-π, π]. */
+const wrapAngle = (x: number) => x - 2 * Math.PI * Math.ceil((x - Math.PI) / (2 * Math.PI));
+
+// -----------------------------------------------------------------------------
+// Residual factories
+
+/** The distance between two points should be `len`. */
+export const lengthResidual = (kind: string, i: number, j: number, len: number): Residual => ({
+  kind, points: [i, j],
+  f: ([p, q]) => norm(sub(p, q)) - len,
+});
+
+/** Two points should coincide.  (One residual per coordinate.) */
+export const coincidenceResiduals = (kind: string, i: number, j: number): Residual[] =>
+  [0, 1, 2].map(k => ({
+    kind, points: [i, j],
+    f: ([p, q]) => p[k] - q[k],
+  }));
+
+/**
+ * The angle at corner `k` of the polygon given by `points` should be `alpha`
+ * (see `cornerAngle(...)`).
+ *
+ * The difference is taken modulo 2π, so that the residual does not jump
+ * where the signed angle wraps around (at straight corners).
+ */
+export const angleResidual = (
+  kind: string, points: number[], k: number, alpha: number,
+): Residual => ({
+  kind, points,
+  f: coords => wrapAngle(cornerAngle(coords, k) - alpha),
+});
+
+/**
+ * Point `points[k]` should be in the plane of the polygon given by `points`.
+ *
+ * The plane is derived from the polygon's directed area, which is robust
+ * against collinear subsequences of vertices.
+ */
+export const planarityResidual = (kind: string, points: number[], k: number): Residual => ({
+  kind, points,
+  f: coords => {
+    const n = coords.length;
+    const area = directedArea(coords);
+    let center: Vec3 = [0, 0, 0];
+    coords.forEach(p => {
+      center = [center[0] + p[0] / n, center[1] + p[1] / n, center[2] + p[2] / n];
+    });
+    const areaNorm = norm(area);
+    if (areaNorm < 1e-12) return 0; // degenerate polygon
+    return dot(area, sub(coords[k], center)) / areaNorm;
+  },
+});
+
+// -----------------------------------------------------------------------------
+
+const evaluate = (positions: Vec3[], r: Residual) =>
+  r.f(r.points.map(i => positions[i]));
+
+function computeStats(positions: Vec3[], residuals: Residual[]) {
+  const stats = new Map<string, ResidualStats>();
+  for (const r of residuals) {
+    const value = Math.abs(evaluate(positions, r));
+    const s = stats.get(r.kind) ?? {count: 0, max: 0, rms: 0};
+    s.count++;
+    s.max = Math.max(s.max, value);
+    s.rms += value * value; // sum of squares for now
+    stats.set(r.kind, s);
+  }
+  for (const s of stats.values()) {
+    s.rms = Math.sqrt(s.rms / s.count);
+  }
+  return stats;
+}
+
+const cost = (positions: Vec3[], residuals: Residual[]) =>
+  residuals.reduce((sum, r) => sum + evaluate(positions, r) ** 2, 0);
+
+/**
+ * Solve `A x = b` for a symmetric positive definite matrix `A`
+ * (given as an array of rows) using a Cholesky decomposition.
+ *
+ * Returns `undefined` if `A` turns out not to be (numerically) positive
+ * definite.
+ */
+function solveSPD(A: number[][], b: number[]): number[] | undefined {
+  const n = b.length;
+  const L = A.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (!(sum > 0)) return undefined;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  const y = new Array<number>(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * y[k];
+    y[i] = sum / L[i][i];
+  }
+  const x = new Array<number>(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+/**
+ * Minimize the sum of squared residuals with the Levenberg-Marquardt method.
+ *
+ * `positions` are updated in place.  The Jacobian is computed numerically
+ * (by central differences), but only w.r.t. the points a residual depends on.
+ *
+ * The problem is invariant under rigid motions, so the normal equations are
+ * singular.  The damping term takes care of that.
+ */
+export function levenbergMarquardt(
+  positions: Vec3[],
+  residuals: Residual[],
+  options: {maxIterations: number, tolerance: number},
+): SolverResult {
+  const {maxIterations, tolerance} = options;
+  const nVars = positions.length * 3;
+  const h = 1e-7;
+
+  let lambda = 1e-3;
+  let currentCost = cost(positions, residuals);
+  let iterations = 0;
+  const maxResidual = () =>
+    residuals.reduce((max, r) => Math.max(max, Math.abs(evaluate(positions, r))), 0);
+
+  while (iterations < maxIterations && maxResidual() > tolerance) {
+    iterations++;
+
+    // Build the normal equations JᵀJ δ = -Jᵀr incrementally, one residual
+    // (= one sparse row of J) at a time.
+    const JtJ = Array.from({length: nVars}, () => new Array<number>(nVars).fill(0));
+    const Jtr = new Array<number>(nVars).fill(0);
+    for (const r of residuals) {
+      const coords = r.points.map(i => [...positions[i]] as Vec3);
+      const value = r.f(coords);
+      // (A point may occur more than once in `r.points`.  So we accumulate
+      // the partial derivatives per variable.)
+      const row = new Map<number, number>();
+      r.points.forEach((pointIdx, k) => {
+        for (let c = 0; c < 3; c++) {
+          const orig = coords[k][c];
+          coords[k][c] = orig + h;
+          const plus = r.f(coords);
+          coords[k][c] = orig - h;
+          const minus = r.f(coords);
+          coords[k][c] = orig;
+          const derivative = (plus - minus) / (2 * h);
+          const idx = pointIdx * 3 + c;
+          row.set(idx, (row.get(idx) ?? 0) + derivative);
+        }
+      });
+      for (const [a, da] of row) {
+        Jtr[a] += da * value;
+        for (const [b, db] of row) {
+          JtJ[a][b] += da * db;
+        }
+      }
+    }
+
+    let improved = false;
+    while (!improved) {
+      const A = JtJ.map((row, i) => row.map((val, j) => i === j ? val + lambda : val));
+      const delta = solveSPD(A, Jtr.map(x => -x));
+      const candidate = delta && positions.map((p, i) =>
+        p.map((x, c) => x + delta[i * 3 + c]) as Vec3
+      );
+      const candidateCost = candidate ? cost(candidate, residuals) : Infinity;
+      if (candidateCost < currentCost) {
+        candidate.forEach((p, i) => positions[i] = p);
+        currentCost = candidateCost;
+        lambda = Math.max(lambda / 10, 1e-9);
+        improved = true;
+      } else {
+        lambda *= 10;
+        if (lambda > 1e12) {
+          log(`solver stuck after ${iterations} iterations (cost ${currentCost})`);
+          return {converged: false, iterations, stats: computeStats(positions, residuals)};
+        }
+      }
+    }
+    log(`cost[${iterations}] = ${currentCost}`);
+  }
+
+  return {
+    converged: maxResidual() <= tolerance,
+    iterations,
+    stats: computeStats(positions, residuals),
+  };
+}
@@ -0,0 +1,324 @@
+import { fail } from './utils';
+import { Snapshot } from './folding';
+import { cross, dot, norm, sub, Vec3 } from './solver';
+
+/*
+Symmetry detection for stars and (partially) folded polyhedra.
+
+A symmetry is an orthogonal map around the centroid of the vertices that
+maps the vertices to vertices and the edges to edges.  (Vertex names are
+ignored, but each symmetry comes with the permutation of the vertex names it
+induces, which helps to check the symmetry of a script.)
+
+- The unfolded star (a single flat face) is checked against the symmetries
+  of the hexagonal grid, that is, rotations by multiples of 60° and
+  reflections across axes at multiples of 30°.  Its group is one of the 2D
+  point groups Cn (rotations only) or Dn (with n reflections).
+- For other states all symmetries in 3D are searched for:  The images of two
+  reference vertices (and the orientation) determine a candidate map, which
+  is then checked against all vertices and edges.  The symmetry group is
+  classified by its rotation axes and mirror planes and given in
+  Schoenflies notation.
+*/
+
+type Matrix = [Vec3, Vec3, Vec3];
+
+export type SymmetryElement = {
+  /** Like "rotation by 120° about (0, 0, 1)" */
+  description: string,
+  /** Rotation (or identity) as opposed to reflection etc. */
+  proper: boolean,
+  /** The induced permutation of vertex names in cycle notation */
+  cycles: string,
+  matrix: Matrix,
+};
+
+export type Symmetry = {
+  /** The group name (2D point group for stars, Schoenflies notation otherwise) */
+  group: string,
+  elements: SymmetryElement[],
+};
+
+const apply = (m: Matrix, v: Vec3): Vec3 => [dot(m[0], v), dot(m[1], v), dot(m[2], v)];
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => [0, 1, 2].map(j => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j])) as Matrix;
+
+/** The matrix with the given columns */
+const fromColumns = (c0: Vec3, c1: Vec3, c2: Vec3): Matrix =>
+  [0, 1, 2].map(i => [c0[i], c1[i], c2[i]]) as Matrix;
+
+const determinant = (m: Matrix) => dot(m[0], cross(m[1], m[2]));
+
+function inverse(m: Matrix): Matrix {
+  const det = determinant(m);
+  // The columns of the inverse are the cross products of the rows:
+  const [r0, r1, r2] = m;
+  return fromColumns(cross(r1, r2), cross(r2, r0), cross(r0, r1))
+    .map(row => row.map(x => x / det)) as Matrix;
+}
+
+const trace = (m: Matrix) => m[0][0] + m[1][1] + m[2][2];
+const scale = (v: Vec3, f: number): Vec3 => [v[0] * f, v[1] * f, v[2] * f];
+const normalize = (v: Vec3) => scale(v, 1 / norm(v));
+const degrees = (rad: number) => Math.round(rad * 180 / Math.PI);
+const formatVector = (v: Vec3) =>
+  `(${v.map(x => Number(x.toFixed(3)) || 0).join(", ")})`;
+
+/** Tolerance relative to the size of the vertex set */
+const relativeTolerance = 1e-6;
+
+type Points = {names: string[], points: Vec3[], edges: Set<string>, tolerance: number};
+
+/** Vertex positions relative to the centroid */
+function centeredPoints({vertices, edges}: Snapshot): Points {
+  if (vertices.length === 0) fail(`no vertices`);
+  const centroid = scale(
+    vertices.reduce<Vec3>((sum, {position: p}) => [sum[0] + p[0], sum[1] + p[1], sum[2] + p[2]], [0, 0, 0]),
+    1 / vertices.length,
+  );
+  const points = vertices.map(({position}) => sub(position, centroid));
+  const index = new Map(vertices.map(({name}, i) => [name, i]));
+  const edgeKey = (i: number, j: number) => i < j ? `${i},${j}` : `${j},${i}`;
+  return {
+    names: vertices.map(({name}) => name),
+    points,
+    edges: new Set(edges.map(([a, b]) => edgeKey(index.get(a), index.get(b)))),
+    tolerance: relativeTolerance * Math.max(1, ...points.map(norm)),
+  };
+}
+
+/**
+ * The permutation of vertex indices induced by `m`
+ * (or `undefined` if `m` is not a symmetry)
+ */
+function permutation({points, edges, tolerance}: Points, m: Matrix) {
+  const perm: number[] = [];
+  const used = new Set<number>();
+  for (const p of points) {
+    const image = apply(m, p);
+    const j = points.findIndex((q, j) => !used.has(j) && norm(sub(q, image)) < tolerance);
+    if (j < 0) return undefined;
+    perm.push(j);
+    used.add(j);
+  }
+  for (const e of edges) {
+    const [i, j] = e.split(",").map(Number);
+    const [pi, pj] = [perm[i], perm[j]];
+    if (!edges.has(pi < pj ? `${pi},${pj}` : `${pj},${pi}`)) return undefined;
+  }
+  return perm;
+}
+
+function cycleNotation(names: string[], perm: number[]) {
+  const done = new Set<number>();
+  const cycles: string[] = [];
+  perm.forEach((_, start) => {
+    if (done.has(start) || perm[start] === start) return;
+    const cycle: string[] = [];
+    for (let i = start; !done.has(i); i = perm[i]) {
+      done.add(i);
+      cycle.push(names[i]);
+    }
+    cycles.push(`(${cycle.join(" ")})`);
+  });
+  return cycles.join("") || "()";
+}
+
+/** Symmetries among the candidate maps (without duplicates) */
+function symmetries(pts: Points, candidates: Iterable<Matrix>) {
+  const found = new Map<string, {matrix: Matrix, perm: number[]}>();
+  for (const matrix of candidates) {
+    const perm = permutation(pts, matrix);
+    if (!perm) continue;
+    // (For planar vertex sets the reflection in the plane gives the same
+    // permutation as the identity.)
+    const key = `${perm.join()} ${Math.sign(determinant(matrix))}`;
+    if (!found.has(key)) found.set(key, {matrix, perm});
+  }
+  // The identity first:
+  return [...found.values()].sort(({perm: p1}, {perm: p2}) =>
+    Number(p2.every((j, i) => j === i)) - Number(p1.every((j, i) => j === i))
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Stars
+
+/** Is this the state of a flat star (a single face in the xy plane)? */
+export const isFlatStar = ({faces, vertices}: Snapshot) =>
+  faces.length === 1 && vertices.every(({position}) => Math.abs(position[2]) < 1e-9);
+
+/** The symmetries of the hexagonal grid (around the origin) */
+function* gridSymmetries(): Generator<Matrix> {
+  for (let k = 0; k < 6; k++) {
+    const phi = k * Math.PI / 3;
+    const [c, s] = [Math.cos(phi), Math.sin(phi)];
+    yield [[c, -s, 0], [s, c, 0], [0, 0, 1]];
+  }
+  for (let k = 0; k < 6; k++) {
+    // Reflection across the axis at angle k * 30°:
+    const phi = k * Math.PI / 3;
+    const [c, s] = [Math.cos(phi), Math.sin(phi)];
+    yield [[c, s, 0], [s, -c, 0], [0, 0, 1]];
+  }
+}
+
+/** The symmetries of the unfolded star that are compatible with the grid */
+export function starSymmetry(snapshot: Snapshot): Symmetry {
+  if (!isFlatStar(snapshot)) fail(`star symmetry is only available for the unfolded star`);
+  const pts = centeredPoints(snapshot);
+  const elements = symmetries(pts, gridSymmetries()).map(({matrix, perm}): SymmetryElement => {
+    const proper = determinant(matrix) > 0;
+    const angle = degrees(Math.atan2(matrix[1][0], matrix[0][0]));
+    return {
+      description:
+        !proper ? `reflection across the axis at ${(angle + 360) % 360 / 2}°` :
+        angle === 0 ? "identity" :
+        `rotation by ${(angle + 360) % 360}°`,
+      proper,
+      cycles: cycleNotation(pts.names, perm),
+      matrix,
+    };
+  });
+  const rotations = elements.filter(e => e.proper).length;
+  return {group: `${rotations < elements.length ? "D" : "C"}${rotations}`, elements};
+}
+
+// -----------------------------------------------------------------------------
+// Point groups
+
+/** Candidate maps determined by the images of two reference points */
+function* candidateMaps({points, tolerance}: Points): Generator<Matrix> {
+  const a = points.reduce((best, p) => norm(p) > norm(best) ? p : best);
+  const b = points.reduce((best, p) => norm(cross(a, p)) > norm(cross(a, best)) ? p : best);
+  const c = cross(a, b);
+  if (norm(c) < tolerance * Math.max(1, norm(a))) return;
+  const basisInverse = inverse(fromColumns(a, b, c));
+  for (const a1 of points) {
+    if (Math.abs(norm(a1) - norm(a)) > tolerance) continue;
+    for (const b1 of points) {
+      if (
+        Math.abs(norm(b1) - norm(b)) > tolerance ||
+        Math.abs(dot(a1, b1) - dot(a, b)) > tolerance * Math.max(1, norm(a))
+      ) continue;
+      const c1 = cross(a1, b1);
+      yield multiply(fromColumns(a1, b1, c1), basisInverse);
+      yield multiply(fromColumns(a1, b1, scale(c1, -1)), basisInverse);
+    }
+  }
+}
+
+/**
+ * The axis of a rotation matrix (for the identity an arbitrary vector)
+ */
+function rotationAxis(m: Matrix): Vec3 {
+  const v: Vec3 = [m[2][1] - m[1][2], m[0][2] - m[2][0], m[1][0] - m[0][1]];
+  if (norm(v) > 1e-6) return normalize(v);
+  // A rotation by 180° (or the identity):  The columns of m + I are
+  // multiples of the axis.
+  const columns = [0, 1, 2].map(j => [0, 1, 2].map(i => m[i][j] + (i === j ? 1 : 0)) as Vec3);
+  const best = columns.reduce((best, col) => norm(col) > norm(best) ? col : best);
+  return norm(best) > 1e-6 ? normalize(best) : [0, 0, 1];
+}
+
+const rotationAngle = (m: Matrix) =>
+  Math.acos(Math.max(-1, Math.min(1, (trace(m) - 1) / 2)));
+
+const negate = (m: Matrix) => m.map(row => scale(row, -1)) as Matrix;
+
+function describeElement(m: Matrix) {
+  const proper = determinant(m) > 0;
+  // An improper element is the inversion combined with a rotation:
+  const rotation = proper ? m : negate(m);
+  const angle = rotationAngle(rotation);
+  const axis = formatVector(rotationAxis(rotation));
+  return (
+    proper
+    ? angle < 1e-6 ? "identity" : `rotation by ${degrees(angle)}° about ${axis}`
+    : angle < 1e-6 ? "inversion"
+    : Math.abs(angle - Math.PI) < 1e-6 ? `reflection in the plane with normal ${axis}`
+    : `rotoreflection by ${180 - degrees(angle)}° about ${axis}`
+  );
+}
+
+/** Classify a (finite) point group given by its matrices */
+function classify(matrices: Matrix[]) {
+  type Axis = {axis: Vec3, order: number};
+  const axes: Axis[] = [];
+  let inversion = false;
+  const mirrors: Vec3[] = [];
+  for (const m of matrices) {
+    if (determinant(m) > 0) {
+      const angle = rotationAngle(m);
+      if (angle < 1e-6) continue;
+      const axis = rotationAxis(m);
+      const order = Math.round(2 * Math.PI / angle);
+      const known = axes.find(a => Math.abs(Math.abs(dot(a.axis, axis)) - 1) < 1e-6);
+      if (known) known.order = Math.max(known.order, order);
+      else axes.push({axis, order});
+    } else {
+      const rotation = negate(m);
+      const angle = rotationAngle(rotation);
+      if (angle < 1e-6) inversion = true;
+      else if (Math.abs(angle - Math.PI) < 1e-6) mirrors.push(rotationAxis(rotation));
+    }
+  }
+  const improper = matrices.some(m => determinant(m) < 0);
+
+  const highAxes = axes.filter(a => a.order >= 3);
+  if (highAxes.length > 1) {
+    const maxOrder = Math.max(...highAxes.map(a => a.order));
+    if (maxOrder >= 5) return improper ? "Ih" : "I";
+    if (maxOrder === 4) return improper ? "Oh" : "O";
+    return !improper ? "T" : inversion ? "Th" : "Td";
+  }
+
+  const main = axes.reduce<Axis>((best, a) => a.order > (best?.order ?? 0) ? a : best, undefined);
+  const n = main?.order ?? 1;
+  if (n === 1) return inversion ? "Ci" : mirrors.length > 0 ? "Cs" : "C1";
+  const parallel = (v: Vec3) => Math.abs(Math.abs(dot(v, main.axis)) - 1) < 1e-6;
+  const perpendicular = (v: Vec3) => Math.abs(dot(v, main.axis)) < 1e-6;
+  const horizontalMirror = mirrors.some(parallel);
+  const sideAxes = axes.filter(a => a !== main && a.order === 2 && perpendicular(a.axis));
+  if (sideAxes.length >= n) {
+    return !improper ? `D${n}` : horizontalMirror ? `D${n}h` : `D${n}d`;
+  }
+  return (
+    !improper ? `C${n}` :
+    horizontalMirror ? `C${n}h` :
+    mirrors.some(perpendicular) ? `C${n}v` :
+    `S${2 * n}`
+  );
+}
+
+/** The symmetries of the vertices and edges in 3D */
+export function pointGroup(snapshot: Snapshot): Symmetry {
+  const pts = centeredPoints(snapshot);
+  const found = symmetries(pts, candidateMaps(pts));
+  if (found.length === 0) {
+    // The vertices are on a line through the centroid (or all in one point).
+    return {group: pts.points.every(p => norm(p) < pts.tolerance) ? "K" : "C∞v or D∞h", elements: []};
+  }
+  return {
+    group: classify(found.map(({matrix}) => matrix)),
+    elements: found.map(({matrix, perm}) => ({
+      description: describeElement(matrix),
+      proper: determinant(matrix) > 0,
+      cycles: cycleNotation(pts.names, perm),
+      matrix,
+    })),
+  };
+}
+
+/**
+ * The symmetry of a state:  the grid symmetries for the unfolded star and
+ * the point group otherwise
+ */
+export const symmetryOf = (snapshot: Snapshot) =>
+  isFlatStar(snapshot) ? starSymmetry(snapshot) : pointGroup(snapshot);
+
+export const describeSymmetry = ({group, elements}: Symmetry) => [
+  `symmetry group ${group} (${elements.length} element${elements.length === 1 ? "" : "s"})`,
+  ...elements.map(({description, cycles}) => `${description}: ${cycles}`),
+].join("\n");
@@ -0,0 +1,273 @@
+import { cmdNames, Command, createFolding, parseCommand } from './folding';
+import { expandScript, ScriptLine } from './macros';
+import { mergeNames } from './MyMesh';
+import {
+  locateError, NonBoundaryVertexError, NonPeerError, ParseError, ScriptError,
+  SourceLocation, UnknownVertexError,
+} from './errors';
+
+/*
+A static check of transform scripts, reporting all problems at once
+(whereas running a script stops at the first failing command):
+
+- Macros and loops are expanded (see `macros.ts`).  If this fails, there
+  is nothing else to check.
+- Each command line is parsed (see `parseCommand(...)`), so unknown
+  commands and wrong argument counts or types are reported.
+- The boundary of the mesh is simulated by vertex names only, following
+  the renamings done by the commands:
+  * `reattach p q` replaces p by p.0 and p.1 and merges the two neighbors
+    of q into a single vertex (named by `mergeNames(...)`),
+  * `bend2 ± p q r` also merges the neighbors of q, and q is no longer on
+    the boundary,
+  * `contract` and `fold auto` close the mesh.
+  So references to names that do not exist (or are no longer on the
+  boundary) at that point are reported, usually with a note telling
+  what happened to the name.  The same holds for `reattach` and `bend2`
+  at vertices whose boundary edges are not peers.
+
+If the setup fails, this is reported as a problem (without a location in
+the transform text) and the commands are only parsed.
+
+Geometric conditions (common faces, coplanarity, intersecting spheres)
+are not checked.  A command with a problem is skipped in the simulation.
+The simulation stops where it cannot follow the commands reliably.
+*/
+
+/** A problem found by `validateScript(...)` */
+export type Problem = {
+  error: ScriptError,
+  /**
+   * The location of the problem in the transform text
+   * (`undefined` for a problem with the setup)
+   */
+  location?: SourceLocation,
+  /** What happened to a vertex name (if relevant) */
+  note?: string,
+};
+
+type SimVertex = {name: string};
+type SimEdge = {from: SimVertex, to: SimVertex, peer?: SimEdge};
+
+/** The simulated boundary as a list of edges in loop order */
+class Boundary {
+  constructor(public edges: SimEdge[]) {}
+
+  /** The boundary vertices with the given name */
+  find(name: string) {
+    return this.edges.filter(e => e.from.name === name).map(e => e.from);
+  }
+
+  /** The index of the boundary edge ending at `v` */
+  indexTo(v: SimVertex) {
+    return this.edges.findIndex(e => e.to === v);
+  }
+
+  /**
+   * The boundary edges before and after `v` (in loop order) and the
+   * remaining edges starting after `v`
+   */
+  around(v: SimVertex) {
+    const i = this.indexTo(v);
+    const rotated = [...this.edges.slice(i), ...this.edges.slice(0, i)];
+    return {before: rotated[0], after: rotated[1], others: rotated.slice(2)};
+  }
+}
+
+/** The simulation state */
+type State =
+  | {kind: "open", boundary: Boundary, unfolded: boolean}
+  | {kind: "closed", by: string}
+  /** The simulation cannot follow the commands (anymore). */
+  | {kind: "unknown"};
+
+/**
+ * The initial state for the setup (or a saved state) and the setup error
+ * (if the setup fails)
+ */
+function initialState(setupDef: string): {state: State, names: Set<string>, error?: ScriptError} {
+  try {
+    const {mesh} = createFolding(setupDef);
+    const names = new Set(mesh.vertices.values().map(v => v.name));
+    if (!mesh.boundary) return {state: {kind: "closed", by: "the setup"}, names};
+    const hes = [...mesh.boundary.halfEdges()];
+    const vertices = new Map(hes.map(he => [he.from, {name: he.from.name}]));
+    const edges = new Map(hes.map(he => [he, {from: vertices.get(he.from), to: vertices.get(he.to)} as SimEdge]));
+    for (const [he0, he1] of mesh.peers) {
+      if (he0 !== he1) edges.get(he0).peer = edges.get(he1);
+    }
+    const unfolded = mesh.loops.size === 2;
+    return {state: {kind: "open", boundary: new Boundary([...edges.values()]), unfolded}, names};
+  } catch (e) {
+    return {state: {kind: "unknown"}, names: new Set(), error: new ScriptError(`invalid setup: ${e.message}`)};
+  }
+}
+
+/**
+ * Check a transform script for the given setup without running it
+ * (see above).  Returns the problems in the order of the command lines
+ * (after a problem with the setup).
+ */
+export function validateScript(setupDef: string, transformDef: string): Problem[] {
+  const problems: Problem[] = [];
+  const initial = initialState(setupDef);
+  if (initial.error) problems.push({error: initial.error});
+  let lines: ScriptLine[];
+  try {
+    lines = expandScript(transformDef);
+  } catch (e) {
+    if (!(e instanceof ScriptError)) throw e;
+    return [...problems, {error: e, location: locateError(e, transformDef)}];
+  }
+
+  const {names} = initial;
+  let {state} = initial;
+  /** Notes on vertex names that disappeared from the boundary */
+  const fates = new Map<string, string>();
+  /** Names of boundary vertices that became interior */
+  const interior = new Set(names);
+  if (state.kind === "open") {
+    for (const {from} of state.boundary.edges) interior.delete(from.name);
+  }
+
+  for (const {command: text, line} of lines) {
+    const report = (error: ScriptError, note?: string) => {
+      problems.push({error, location: locateError(error, transformDef, text, line), note});
+    };
+    const [word] = text.split(/\s+/);
+    if (!(cmdNames as string[]).includes(word)) {
+      report(new ParseError(
+        `Unknown command "${word}" (expected one of ${cmdNames.join(", ")})`, word, 0,
+      ));
+      continue;
+    }
+    let command: Command;
+    try {
+      command = parseCommand(text);
+    } catch (e) {
+      if (!(e instanceof ScriptError)) throw e;
+      report(e);
+      continue;
+    }
+
+    if (state.kind === "unknown") continue;
+    if (state.kind === "closed") {
+      const note = `the mesh has no boundary after ${state.by}`;
+      report(
+        "vertices" in command
+        ? new NonBoundaryVertexError(command.vertices[0])
+        : new ScriptError(`"${word}" needs a mesh with a boundary`, word, 0),
+        note,
+      );
+      continue;
+    }
+
+    const {boundary} = state;
+    const where = `line ${line}`;
+    /** The unique boundary vertex with the given name (reporting a problem otherwise) */
+    const lookUp = (name: string) => {
+      const found = boundary.find(name);
+      if (found.length === 1) return found[0];
+      if (found.length === 0 && interior.has(name)) {
+        report(new NonBoundaryVertexError(name), fates.get(name));
+      } else {
+        report(new UnknownVertexError(name, found.length), found.length === 0 ? fates.get(name) : undefined);
+      }
+      return undefined;
+    };
+    /** Report a vertex whose boundary edges are not peers. */
+    const checkPeers = (v: SimVertex) => {
+      const {before, after} = boundary.around(v);
+      if (before.peer === after) return true;
+      report(new NonPeerError(v.name, `"${before.from.name}" and "${after.to.name}" are not glued at "${v.name}"`));
+      return false;
+    };
+    const checkTipName = (tipName: string) => {
+      if (!names.has(tipName)) return true;
+      report(new ScriptError(`New tip name "${tipName}" already in use.`, tipName));
+      return false;
+    };
+
+    switch (command.type) {
+      case "bend": {
+        const vertices = command.vertices.map(lookUp);
+        if (vertices.some(v => !v)) continue;
+        break;
+      }
+      case "bend2": {
+        const [p, q, r] = command.vertices.map(lookUp);
+        if (!p || !q || !r || !checkPeers(q)) continue;
+        const {before, after, others} = boundary.around(q);
+        if (others.length < 2) {
+          state = {kind: "unknown"};
+          continue;
+        }
+        const merged = {name: mergeNames(before.from.name, after.to.name)};
+        others[0].from = merged;
+        others.at(-1).to = merged;
+        boundary.edges = others;
+        names.delete(before.from.name);
+        names.delete(after.to.name);
+        names.add(merged.name);
+        interior.add(q.name);
+        fates.set(q.name, `"${q.name}" is no longer on the boundary after ${where}`);
+        for (const t of [before.from, after.to]) {
+          fates.set(t.name, `"${t.name}" was merged into "${merged.name}" by ${where}`);
+        }
+        break;
+      }
+      case "reattach": {
+        const [p, q] = command.vertices.map(lookUp);
+        if (!p || !q || !checkPeers(q)) continue;
+        const {before, after, others} = boundary.around(q);
+        const t1 = before.from, t2 = after.to;
+        if (p === q || p === t1 || p === t2) {
+          report(new ScriptError(
+            `cannot reattach "${p.name}" at its neighbor "${q.name}"`, p.name,
+          ));
+          continue;
+        }
+        // Cut through p and glue the edges at q, so that the boundary
+        // t2, Y..., p, X..., t1, q becomes t, Y..., p.1, q, p.0, X...:
+        const k = others.findIndex(e => e.from === p);
+        const t = {name: mergeNames(t2.name, t1.name)};
+        const p0 = {name: `${p.name}.0`}, p1 = {name: `${p.name}.1`};
+        const toQ: SimEdge = {from: p1, to: q}, fromQ: SimEdge = {from: q, to: p0};
+        toQ.peer = fromQ;
+        fromQ.peer = toQ;
+        others[0].from = t;
+        others.at(-1).to = t;
+        others[k - 1].to = p1;
+        others[k].from = p0;
+        boundary.edges = [...others.slice(0, k), toQ, fromQ, ...others.slice(k)];
+        for (const name of [p.name, t1.name, t2.name]) names.delete(name);
+        for (const name of [p0.name, p1.name, t.name]) names.add(name);
+        fates.set(p.name, `"${p.name}" was split into "${p0.name}" and "${p1.name}" by ${where}`);
+        for (const v of [t1, t2]) {
+          fates.set(v.name, `"${v.name}" was merged into "${t.name}" by ${where}`);
+        }
+        break;
+      }
+      case "contract": {
+        if (!checkTipName(command.tipName)) continue;
+        names.add(command.tipName);
+        state = {kind: "closed", by: `"contract" in ${where}`};
+        continue;
+      }
+      case "fold": {
+        if (!state.unfolded) {
+          report(new ScriptError(
+            `"fold auto" only works on the unfolded star (as the first command)`, "fold", 0,
+          ));
+          continue;
+        }
+        if (!checkTipName(command.tipName)) continue;
+        names.add(command.tipName);
+        state = {kind: "closed", by: `"fold auto" in ${where}`};
+        continue;
+      }
+    }
+    state.unfolded = false;
+  }
+  return problems;
+}
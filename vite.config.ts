@@ -2,6 +2,9 @@ import { defineConfig } from 'vite';
 import preact from '@preact/preset-vite';
 
 // https://vitejs.dev/config/
-export default defineConfig({
+export default defineConfig(({isSsrBuild}) => ({
 	plugins: [preact()],
-});
+	// The SSR build is only used for the command-line tool,
+	// which does not need the static web assets.
+	publicDir: isSsrBuild ? false : undefined,
+}));